@@ -12,9 +12,14 @@ import { ToolRegistry } from '../core/tools/registry.js';
 import { BrowserTool } from '../core/tools/browser.js';
 import { FileSystemTool } from '../core/tools/filesystem.js';
 import { ExecTool } from '../core/tools/exec.js';
+import { ProcessTool } from '../core/tools/process.js';
+import type { ApprovalRequest } from '../core/approval/manager.js';
 import type { AgentConfig, GatewayConfig } from '../types/index.js';
+import { createHash } from 'crypto';
 import { readFileSync } from 'fs';
-import { join } from 'path';
+import { homedir } from 'os';
+import { createInterface } from 'readline/promises';
+import { join, resolve } from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
 
@@ -34,6 +39,7 @@ program
   .option('-m, --message <message>', 'User message')
   .option('-s, --session <sessionId>', 'Session ID', 'main')
   .option('-t, --thinking <level>', 'Thinking level', 'medium')
+  .option('--schema <file>', 'JSON Schema file the final answer must match')
   .action(async (options) => {
     const spinner = ora('Initializing agent...').start();
 
@@ -46,11 +52,22 @@ program
       const agent = createAgent(config);
       spinner.succeed('Agent initialized');
 
+      // 工具调用需要审批时在终端询问
+      agent.on('approval', (event) => {
+        const { data } = event as { data: { phase: string; request?: ApprovalRequest } };
+        if (data.phase === 'requested' && data.request) {
+          void promptApproval(agent, data.request, spinner);
+        }
+      });
+
       // 运行 Agent
       spinner.start('Running agent...');
       const run = await agent.run({
         sessionId: options.session,
         message: options.message || 'Hello',
+        output: options.schema
+          ? { schema: JSON.parse(readFileSync(options.schema, 'utf-8')) as Record<string, unknown> }
+          : undefined,
       });
 
       spinner.succeed('Agent completed');
@@ -62,6 +79,12 @@ program
       if (run.error) {
         console.log(chalk.red(`Error: ${run.error}`));
       }
+      if (run.output !== undefined) {
+        console.log(JSON.stringify(run.output, null, 2));
+      }
+
+      // 单次运行结束即退出，终止保留的后台进程
+      await agent.dispose();
     } catch (error) {
       spinner.fail('Agent failed');
       console.error(chalk.red('Error:'), error);
@@ -69,6 +92,96 @@ program
     }
   });
 
+/**
+ * Compact 命令 - 压缩会话历史
+ */
+program
+  .command('compact')
+  .description('Summarize older session history to free up context')
+  .option('-s, --session <sessionId>', 'Session ID', 'main')
+  .action(async (options) => {
+    const spinner = ora('Compacting session...').start();
+
+    try {
+      const config = loadConfig();
+      const agent = createAgent(config);
+
+      const result = await agent.compact(options.session);
+      if (!result) {
+        spinner.info('Nothing to compact');
+        return;
+      }
+
+      spinner.succeed('Session compacted');
+      console.log(chalk.gray(`Archived messages: ${result.archivedMessages}`));
+      console.log(chalk.gray(`Tokens: ${result.tokensBefore} -> ${result.tokensAfter}`));
+    } catch (error) {
+      spinner.fail('Compaction failed');
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Checkpoints 命令 - 列出工作区检查点
+ */
+program
+  .command('checkpoints')
+  .description('List workspace checkpoints created before each run')
+  .option('-s, --session <sessionId>', 'Only show checkpoints of this session')
+  .action(async (options) => {
+    try {
+      const config = loadConfig();
+      const agent = createAgent(config);
+
+      const checkpoints = await agent.listCheckpoints(options.session);
+      if (checkpoints.length === 0) {
+        console.log(chalk.gray('No checkpoints'));
+        return;
+      }
+
+      for (const checkpoint of checkpoints) {
+        const changes = checkpoint.changes ? `${checkpoint.changes.length} changed` : 'in progress';
+        const source = checkpoint.label ?? `run ${checkpoint.runId}`;
+        console.log(
+          `${chalk.cyan(checkpoint.id)}  ${new Date(checkpoint.createdAt).toLocaleString()}  ` +
+            chalk.gray(`${checkpoint.sessionId ?? '-'}  ${source}  ${checkpoint.fileCount} files, ${changes}`)
+        );
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Rewind 命令 - 将工作区恢复到检查点
+ */
+program
+  .command('rewind <checkpointId>')
+  .description('Restore workspace files to a checkpoint')
+  .option('--session', 'Also truncate the session history to the checkpoint')
+  .action(async (checkpointId, options) => {
+    const spinner = ora('Rewinding workspace...').start();
+
+    try {
+      const config = loadConfig();
+      const agent = createAgent(config);
+
+      const result = await agent.rewind(checkpointId, { session: options.session === true });
+      spinner.succeed(`Workspace restored to ${result.checkpointId}`);
+      console.log(chalk.gray(`Restored: ${result.restored.length}, deleted: ${result.deleted.length}`));
+      if (result.messagesRemoved !== undefined) {
+        console.log(chalk.gray(`Messages removed: ${result.messagesRemoved}`));
+      }
+      console.log(chalk.gray(`Undo with: awesome-agent rewind ${result.backupCheckpointId}`));
+    } catch (error) {
+      spinner.fail('Rewind failed');
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
 /**
  * Gateway 命令 - 启动 Gateway
  */
@@ -78,6 +191,7 @@ program
   .option('-p, --port <port>', 'Port number', '18789')
   .option('-h, --host <host>', 'Host address', '127.0.0.1')
   .option('--token <token>', 'Auth token')
+  .option('--client-token <token=clientId...>', 'Auth token bound to a client id for policy rules (repeatable)')
   .action(async (options) => {
     const spinner = ora('Starting Gateway...').start();
 
@@ -85,12 +199,23 @@ program
       const config = loadConfig();
       const agent = createAgent(config);
 
+      // 按客户端发放的令牌：token=clientId
+      const tokens: Record<string, string> = {};
+      for (const entry of (options.clientToken as string[] | undefined) ?? []) {
+        const separator = entry.lastIndexOf('=');
+        if (separator <= 0 || separator === entry.length - 1) {
+          throw new Error(`Invalid --client-token, expected <token>=<clientId>: ${entry}`);
+        }
+        tokens[entry.slice(0, separator)] = entry.slice(separator + 1);
+      }
+
       const gatewayConfig: GatewayConfig = {
         port: parseInt(options.port),
         host: options.host,
-        auth: options.token
-          ? { mode: 'token', token: options.token }
-          : { mode: 'none' },
+        auth:
+          options.token || Object.keys(tokens).length > 0
+            ? { mode: 'token', token: options.token, tokens }
+            : { mode: 'none' },
       };
 
       const gateway = new GatewayServer(agent, gatewayConfig);
@@ -171,6 +296,43 @@ function loadConfig(): AgentConfig {
   }
 }
 
+/**
+ * 在终端询问是否批准工具调用
+ */
+async function promptApproval(
+  agent: AwesomeAgent,
+  request: ApprovalRequest,
+  spinner: ReturnType<typeof ora>
+): Promise<void> {
+  spinner.stop();
+  console.log(chalk.yellow(`\n⚠️  Approval required: ${request.toolName}`));
+  console.log(chalk.gray(request.reason));
+  console.log(JSON.stringify(request.arguments, null, 2));
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question('Approve? [y/N] ');
+    if (/^y(es)?$/i.test(answer.trim())) {
+      agent.approve(request.id);
+    } else {
+      agent.deny(request.id, 'Denied by user');
+    }
+  } finally {
+    rl.close();
+  }
+
+  spinner.start('Running agent...');
+}
+
+/**
+ * 浏览器登录状态的保存目录：$XDG_CONFIG_HOME/awesome-agent/browser/<工作区路径哈希>
+ */
+function browserStorageDir(workspace: string): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  const key = createHash('sha256').update(resolve(workspace)).digest('hex').slice(0, 16);
+  return join(configHome, 'awesome-agent', 'browser', key);
+}
+
 /**
  * 创建 Agent 实例
  */
@@ -179,9 +341,17 @@ function createAgent(config: AgentConfig): AwesomeAgent {
 
   // 注册默认工具
   const toolRegistry = agent['toolRegistry'] as ToolRegistry;
-  toolRegistry.register(new BrowserTool());
-  toolRegistry.register(new FileSystemTool(config.workspace));
-  toolRegistry.register(new ExecTool());
+  // 浏览器登录状态包含 cookie，保存在工作区之外的用户配置目录，exec 等工具无法读取
+  toolRegistry.register(new BrowserTool({ storageDir: browserStorageDir(config.workspace) }));
+  toolRegistry.register(new FileSystemTool(agent.workspaceGuard));
+  const execTool = new ExecTool({
+    sandbox: config.sandbox
+      ? { workspace: config.workspace, ...(config.sandbox === true ? {} : config.sandbox) }
+      : undefined,
+    workspace: agent.workspaceGuard,
+  });
+  toolRegistry.register(execTool);
+  toolRegistry.register(new ProcessTool(execTool.processes));
 
   return agent;
 }
@@ -10,82 +10,276 @@
 
 import type { AgentConfig, Session, Message, ToolCall, AgentRun } from '../types/index.js';
 import { ToolRegistry } from './tools/registry.js';
-import { ModelProvider } from './models/provider.js';
+import { ToolArgumentsError } from './tools/base.js';
+import { PolicyEngine } from './policy/engine.js';
+import { CommandRejectedError } from './policy/command.js';
+import { ApprovalManager, type ApprovalDecision, type ApprovalRequest } from './approval/manager.js';
+import { ModelChain, modelLabel } from './models/fallback.js';
+import type { GenerateResult } from './models/adapter.js';
 import { SessionManager } from './session/manager.js';
+import { SessionCompactor, type CompactionResult } from './session/compaction.js';
+import { countMessageTokens, selectContextMessages } from './context/window.js';
+import { RunScheduler } from './queue/scheduler.js';
+import { UsageTracker, emptyUsage } from './usage/tracker.js';
+import { WorkspaceGuard } from './workspace/guard.js';
+import { CheckpointManager, type CheckpointInfo, type RewindResult } from './workspace/checkpoint.js';
+import {
+  StructuredOutput,
+  StructuredOutputError,
+  type StructuredOutputOptions,
+} from './output/structured.js';
 
 type EventListener = (event: unknown) => void;
 
+type ToolCallResult = { callId: string; name: string; result: unknown; error?: string };
+
+/** 默认全局并发运行数 */
+const DEFAULT_MAX_CONCURRENT = 4;
+/** 未配置 maxTokens 时为输出预留的 token */
+const DEFAULT_OUTPUT_RESERVE = 4096;
+/** token 估算误差的安全余量 */
+const DEFAULT_SAFETY_RESERVE = 512;
+/** 同一轮工具调用默认并行数 */
+const DEFAULT_MAX_PARALLEL_TOOLS = 4;
+/** 单个工具输出默认上限 */
+const DEFAULT_MAX_TOOL_OUTPUT_TOKENS = 8000;
+
 export class AwesomeAgent {
   private config: AgentConfig;
   private toolRegistry: ToolRegistry;
-  private modelProvider: ModelProvider;
+  private modelProvider: ModelChain;
   private sessionManager: SessionManager;
+  private compactor: SessionCompactor;
+  private scheduler: RunScheduler;
+  private usageTracker: UsageTracker;
+  private approvals: ApprovalManager = new ApprovalManager();
+  private checkpoints?: CheckpointManager;
+  private policy: PolicyEngine;
   private activeRuns: Map<string, AgentRun> = new Map();
+  private abortControllers: Map<string, AbortController> = new Map();
   private eventListeners: Map<string, Set<EventListener>> = new Map();
 
+  /** 工作区边界，供访问文件的工具共用；运行中的文件访问记录写入 AgentRun.files */
+  readonly workspaceGuard: WorkspaceGuard;
+
   constructor(config: AgentConfig) {
     this.config = config;
     this.toolRegistry = new ToolRegistry(config.tools || []);
-    this.modelProvider = new ModelProvider(config.model);
+    this.policy = new PolicyEngine(config.policy, config.tools || []);
+    this.modelProvider = new ModelChain(config.model);
     this.sessionManager = new SessionManager(config.workspace);
+    this.workspaceGuard = new WorkspaceGuard(config.workspace, config.workspaceGuard);
+    if (config.checkpoints !== false) {
+      this.checkpoints = new CheckpointManager(
+        config.workspace,
+        config.checkpoints === true ? {} : config.checkpoints
+      );
+    }
+    this.scheduler = new RunScheduler(config.maxConcurrent ?? DEFAULT_MAX_CONCURRENT);
+    this.usageTracker = new UsageTracker(config.workspace, {
+      pricing: config.pricing,
+      budget: config.budget,
+    });
+    this.compactor = new SessionCompactor({
+      sessionManager: this.sessionManager,
+      generate: (options) => this.modelProvider.generate(options),
+      countTokens: (text) => this.modelProvider.countTokens(text),
+      getContextWindow: () => this.modelProvider.capabilities.contextWindow,
+      config: config.compaction,
+    });
   }
 
   /**
    * 运行 Agent 循环
    * 集成 OpenClaw 的 Agent Loop 机制
+   *
+   * 传入 output 时最终回复须符合给定结构，解析结果写入 run.output
    */
-  async run(params: {
+  async run<TOutput = unknown>(params: {
     sessionId: string;
     message: string;
     runId?: string;
-  }): Promise<AgentRun> {
+    /** 发起运行的网关客户端（用于按客户端限定工具策略） */
+    clientId?: string;
+    output?: StructuredOutputOptions<TOutput>;
+  }): Promise<AgentRun<TOutput>> {
     const runId = params.runId || `run_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+    const output = params.output ? new StructuredOutput(params.output) : undefined;
     
-    const run: AgentRun = {
+    const run: AgentRun<TOutput> = {
       id: runId,
       sessionId: params.sessionId,
+      clientId: params.clientId,
       status: 'pending',
-      startedAt: Date.now(),
     };
 
+    const controller = new AbortController();
+
     this.activeRuns.set(runId, run);
+    this.abortControllers.set(runId, controller);
+
+    try {
+      // 同一会话串行执行，全局并发受 maxConcurrent 限制
+      if (!this.scheduler.canStart(params.sessionId)) {
+        this.emit('lifecycle', { type: 'lifecycle', runId, data: { phase: 'queued' } });
+      }
+
+      return await this.scheduler.schedule(
+        params.sessionId,
+        () => this.executeRun(run, params.message, controller, output),
+        { signal: controller.signal }
+      );
+    } catch (error) {
+      // 排队期间被取消
+      if (controller.signal.aborted && !run.startedAt) {
+        run.status = 'cancelled';
+        run.endedAt = run.endedAt ?? Date.now();
+        this.emit('lifecycle', { type: 'lifecycle', runId, data: { phase: 'cancelled' } });
+        return run;
+      }
+      throw error;
+    } finally {
+      this.activeRuns.delete(runId);
+      this.abortControllers.delete(runId);
+      // 终止本次运行启动的后台进程等资源
+      await this.toolRegistry.release({ runId });
+      const files = this.workspaceGuard.takeAudit(runId);
+      if (files.length > 0) run.files = files;
+    }
+  }
+
+  /**
+   * 执行一次运行（由调度器调用）
+   */
+  private async executeRun<TOutput>(
+    run: AgentRun<TOutput>,
+    message: string,
+    controller: AbortController,
+    output?: StructuredOutput<TOutput>
+  ): Promise<AgentRun<TOutput>> {
+    const runId = run.id;
+    let session: Session | undefined;
+    let timedOut = false;
+
+    run.status = 'running';
+    run.startedAt = Date.now();
+    run.usage = emptyUsage();
     this.emit('lifecycle', { type: 'lifecycle', runId, data: { phase: 'start' } });
 
+    // 超时后中止运行
+    const timeoutMs = (this.config.timeoutSeconds ?? 0) * 1000;
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort(new Error(`Run timed out after ${this.config.timeoutSeconds}s`));
+          }, timeoutMs)
+        : undefined;
+
     try {
-      run.status = 'running';
-      
       // 1. 获取或创建会话
-      const session = await this.sessionManager.getOrCreate(params.sessionId);
+      session = await this.sessionManager.getOrCreate(run.sessionId);
+
+      // 运行前为工作区创建检查点，可通过 rewind 撤销本次运行的文件修改
+      await this.createCheckpoint(run, session);
       
       // 2. 添加用户消息
       session.messages.push({
         role: 'user',
-        content: params.message,
+        content: message,
         timestamp: Date.now(),
       });
 
-      // 3. Agent Loop（类似 OpenClaw）
-      const result = await this.agentLoop(session, runId);
+      // 3. 会话过长时自动压缩
+      if (this.compactor.shouldCompact(session)) {
+        try {
+          await this.compactSession(session, runId, controller.signal);
+        } catch (error) {
+          controller.signal.throwIfAborted();
+          // 压缩失败不影响本次运行，上下文仍按 token 预算裁剪
+          console.warn(`Failed to compact session ${session.id}:`, error);
+        }
+      }
+
+      // 4. Agent Loop（类似 OpenClaw）
+      const result = await this.agentLoop(session, run, controller.signal, output);
       
-      // 4. 保存会话
+      // 5. 保存会话
       await this.sessionManager.save(session);
       
       run.status = 'completed';
       run.endedAt = Date.now();
       
-      this.emit('lifecycle', { type: 'lifecycle', runId, data: { phase: 'end', result } });
+      this.emit('lifecycle', {
+        type: 'lifecycle',
+        runId,
+        data: { phase: 'end', result, output: run.output, model: run.model, usage: run.usage },
+      });
       
       return run;
     } catch (error) {
+      // 被取消或超时：保存已产生的部分输出，保持会话一致
+      if (controller.signal.aborted) {
+        if (timedOut) {
+          run.status = 'timeout';
+          run.error = `Run timed out after ${this.config.timeoutSeconds}s`;
+        } else {
+          run.status = 'cancelled';
+        }
+        run.endedAt = Date.now();
+        if (session) {
+          await this.sessionManager.save(session);
+        }
+
+        this.emit('lifecycle', {
+          type: 'lifecycle',
+          runId,
+          data: { phase: run.status, error: run.error, usage: run.usage },
+        });
+
+        return run;
+      }
+
       run.status = 'error';
       run.error = error instanceof Error ? error.message : String(error);
       run.endedAt = Date.now();
       
-      this.emit('lifecycle', { type: 'lifecycle', runId, data: { phase: 'error', error: run.error } });
+      // 已产生的用量同样计入会话
+      if (session) {
+        await this.sessionManager.save(session);
+      }
+
+      this.emit('lifecycle', {
+        type: 'lifecycle',
+        runId,
+        data: { phase: 'error', error: run.error, usage: run.usage },
+      });
       
       throw error;
     } finally {
-      this.activeRuns.delete(runId);
+      clearTimeout(timer);
+      await this.usageTracker.recordRun(run);
+      if (run.checkpointId) {
+        // 记录本次运行的文件变更
+        await this.checkpoints?.complete(run.checkpointId).catch((error) => {
+          console.warn(`Failed to record changes for checkpoint ${run.checkpointId}:`, error);
+        });
+      }
+    }
+  }
+
+  private async createCheckpoint(run: AgentRun, session: Session): Promise<void> {
+    if (!this.checkpoints) return;
+    try {
+      const checkpoint = await this.checkpoints.create({
+        runId: run.id,
+        sessionId: session.id,
+        messageCount: session.messages.length,
+      });
+      run.checkpointId = checkpoint.id;
+    } catch (error) {
+      // 检查点失败不影响本次运行
+      console.warn(`Failed to create checkpoint for run ${run.id}:`, error);
     }
   }
 
@@ -93,47 +287,109 @@ export class AwesomeAgent {
    * Agent Loop - 核心执行循环
    * 参考 OpenClaw 的 agent-loop.md
    */
-  private async agentLoop(session: Session, runId: string): Promise<string> {
+  private async agentLoop<TOutput>(
+    session: Session,
+    run: AgentRun<TOutput>,
+    signal: AbortSignal,
+    output?: StructuredOutput<TOutput>
+  ): Promise<string> {
+    const runId = run.id;
     const maxIterations = 10;
     let iteration = 0;
     let assistantResponse = '';
+    let outputRetries = 0;
+    let outputIssues: string[] | undefined = output ? ['Agent stopped before producing a final answer'] : undefined;
 
     while (iteration < maxIterations) {
       iteration++;
+      signal.throwIfAborted();
 
       // 1. 构建上下文（类似 OpenClaw 的系统提示词构建）
-      const context = this.buildContext(session);
+      const context = this.buildContext(session, output);
+
+      // 2. 调用 LLM（支持思考模式），3. 流式输出助手回复
+      let response: GenerateResult = { text: '' };
+      let turnText = '';
+      let turnThinking = '';
+      run.model = modelLabel(this.modelProvider.primary);
+
+      // 预算检查（按本次请求的输入 token 预估）
+      const countTokens = (text: string) => this.modelProvider.countTokens(text);
+      const estimatedInput = context.reduce((sum, msg) => sum + countMessageTokens(msg, countTokens), 0);
+      await this.usageTracker.checkBudget(
+        session,
+        this.usageTracker.estimateCost(run.model, { inputTokens: estimatedInput, outputTokens: 0 })
+      );
+      const stream = this.modelProvider.stream(
+        {
+          messages: context,
+          thinkingLevel: this.config.thinkingLevel,
+          tools: this.toolRegistry.getAvailableTools(),
+          responseFormat: output?.responseFormat,
+          signal,
+        },
+        (event) => {
+          // 模型重试 / 回退事件
+          if (event.phase === 'fallback') {
+            run.model = event.model;
+          }
+          this.emit('lifecycle', { type: 'lifecycle', runId, data: event });
+        }
+      );
 
-      // 2. 调用 LLM（支持思考模式）
-      const response = await this.modelProvider.generate({
-        messages: context,
-        thinkingLevel: this.config.thinkingLevel,
-        tools: this.toolRegistry.getAvailableTools(),
-      });
+      try {
+        for await (const chunk of stream) {
+          if (chunk.type === 'text') {
+            turnText += chunk.delta;
+            assistantResponse += chunk.delta;
+            this.emit('assistant', {
+              type: 'assistant',
+              runId,
+              data: { delta: chunk.delta, full: assistantResponse },
+            });
+          } else if (chunk.type === 'thinking') {
+            // 思考内容单独输出，不计入回复文本
+            turnThinking += chunk.delta;
+            this.emit('thinking', {
+              type: 'thinking',
+              runId,
+              data: { delta: chunk.delta, full: turnThinking },
+            });
+          } else if (chunk.type === 'done') {
+            response = chunk.result;
+          }
+        }
+      } catch (error) {
+        // 取消时保留已输出的部分回复
+        if (signal.aborted && turnText) {
+          session.messages.push({
+            role: 'assistant',
+            content: turnText,
+            timestamp: Date.now(),
+          });
+        }
+        throw error;
+      }
 
-      // 3. 流式输出助手回复
-      if (response.text) {
-        assistantResponse += response.text;
-        this.emit('assistant', {
-          type: 'assistant',
-          runId,
-          data: { delta: response.text, full: assistantResponse },
-        });
+      // 记录用量
+      if (response.usage) {
+        await this.usageTracker.record(run.model, response.usage, { run, session });
       }
 
       // 4. 检查是否需要工具调用
       if (response.toolCalls && response.toolCalls.length > 0) {
-        // 执行工具调用
-        const toolResults = await this.executeTools(response.toolCalls, runId);
-        
-        // 将工具结果添加到会话
+        // 先记录工具调用，保证取消时调用与结果成对出现
         session.messages.push({
           role: 'assistant',
-          content: assistantResponse,
+          content: turnText,
           toolCalls: response.toolCalls,
+          thinking: response.thinking,
           timestamp: Date.now(),
         });
 
+        // 执行工具调用
+        const toolResults = await this.executeTools(response.toolCalls, run, signal);
+
         // 为每个工具结果创建单独的消息
         for (const result of toolResults) {
           session.messages.push({
@@ -156,13 +412,43 @@ export class AwesomeAgent {
       // 5. 没有工具调用，完成
       session.messages.push({
         role: 'assistant',
-        content: assistantResponse,
+        content: turnText,
+        thinking: response.thinking,
         timestamp: Date.now(),
       });
 
+      // 6. 结构化输出：校验失败时带上错误重新提示
+      if (output) {
+        const parsed = output.parse(response.text || turnText);
+        if (parsed.success) {
+          run.output = parsed.data;
+          outputIssues = undefined;
+        } else if (outputRetries < output.maxRetries) {
+          outputRetries++;
+          outputIssues = parsed.issues;
+          this.emit('lifecycle', {
+            type: 'lifecycle',
+            runId,
+            data: { phase: 'output_retry', attempt: outputRetries, issues: parsed.issues },
+          });
+          session.messages.push({
+            role: 'user',
+            content: output.retryPrompt(parsed.issues),
+            timestamp: Date.now(),
+          });
+          continue;
+        } else {
+          throw new StructuredOutputError(parsed.issues, response.text || turnText);
+        }
+      }
+
       break;
     }
 
+    if (outputIssues) {
+      throw new StructuredOutputError(outputIssues, assistantResponse);
+    }
+
     return assistantResponse;
   }
 
@@ -170,18 +456,39 @@ export class AwesomeAgent {
    * 构建上下文
    * 集成 OpenClaw 的系统提示词构建 + LangChain 的记忆系统
    */
-  private buildContext(session: Session): Message[] {
+  private buildContext(session: Session, output?: StructuredOutput<unknown>): Message[] {
     const messages: Message[] = [];
 
     // 1. 系统提示词（类似 OpenClaw）
+    const systemPrompt = output
+      ? `${this.buildSystemPrompt()}\n\n${output.instructions}`
+      : this.buildSystemPrompt();
     messages.push({
       role: 'system',
-      content: this.buildSystemPrompt(),
+      content: systemPrompt,
       timestamp: Date.now(),
     });
 
-    // 2. 会话历史（最近 N 条，避免上下文过长）
-    const recentMessages = session.messages.slice(-20);
+    // 2. 会话历史（按 token 预算选取，为系统提示词、工具定义和输出预留空间）
+    const countTokens = (text: string) => this.modelProvider.countTokens(text);
+    const capabilities = this.modelProvider.capabilities;
+    const reservedOutput =
+      this.modelProvider.primary.maxTokens ?? capabilities.maxOutputTokens ?? DEFAULT_OUTPUT_RESERVE;
+    const toolTokens = countTokens(JSON.stringify(this.toolRegistry.getAvailableTools()));
+    const budget =
+      capabilities.contextWindow -
+      reservedOutput -
+      countTokens(systemPrompt) -
+      toolTokens -
+      (this.config.context?.reserveTokens ?? DEFAULT_SAFETY_RESERVE);
+
+    const recentMessages = selectContextMessages(session.messages, {
+      budget: Math.max(0, budget),
+      maxToolOutputTokens:
+        this.config.context?.maxToolOutputTokens ??
+        Math.max(256, Math.min(DEFAULT_MAX_TOOL_OUTPUT_TOKENS, Math.floor(budget / 4))),
+      countTokens,
+    });
     messages.push(...recentMessages);
 
     return messages;
@@ -207,7 +514,7 @@ Guidelines:
 - If a tool fails, try alternative approaches
 
 Current Configuration:
-- Model: ${this.config.model.provider}/${this.config.model.model}
+- Model: ${modelLabel(this.modelProvider.primary)}
 - Thinking Level: ${this.config.thinkingLevel || 'medium'}
 - Workspace: ${this.config.workspace}`;
   }
@@ -215,54 +522,320 @@ Current Configuration:
   /**
    * 执行工具调用
    * 集成 OpenClaw 的工具执行机制
+   *
+   * 连续的可并行调用（concurrencySafe）并发执行，数量受 maxParallelTools 限制；
+   * 其余调用逐个执行，作为前后批次的分界。结果保持调用顺序
    */
-  private async executeTools(toolCalls: ToolCall[], runId: string): Promise<Array<{ callId: string; name: string; result: unknown; error?: string }>> {
-    const results: Array<{ callId: string; name: string; result: unknown; error?: string }> = [];
+  private async executeTools(
+    toolCalls: ToolCall[],
+    run: AgentRun,
+    signal: AbortSignal
+  ): Promise<ToolCallResult[]> {
+    const results: ToolCallResult[] = [];
+    const limit = Math.max(1, this.config.maxParallelTools ?? DEFAULT_MAX_PARALLEL_TOOLS);
+
+    for (const batch of this.batchToolCalls(toolCalls)) {
+      let next = 0;
+      const worker = async () => {
+        while (next < batch.length) {
+          const index = batch[next++];
+          results[index] = await this.executeToolCall(toolCalls[index], run, signal);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(limit, batch.length) }, worker));
+    }
 
-    for (const call of toolCalls) {
-      try {
-        // 发出工具开始事件
-        this.emit('tool', {
-          type: 'tool',
-          runId,
-          data: { phase: 'start', name: call.name, callId: call.id },
-        });
+    return results;
+  }
+
+  /**
+   * 按并发安全性将工具调用分批（返回调用下标）
+   */
+  private batchToolCalls(toolCalls: ToolCall[]): number[][] {
+    const batches: number[][] = [];
+    let parallel: number[] = [];
+
+    toolCalls.forEach((call, index) => {
+      if (this.isConcurrencySafe(call)) {
+        parallel.push(index);
+        return;
+      }
+      if (parallel.length > 0) {
+        batches.push(parallel);
+        parallel = [];
+      }
+      batches.push([index]);
+    });
+
+    if (parallel.length > 0) {
+      batches.push(parallel);
+    }
+    return batches;
+  }
+
+  /**
+   * 工具调用能否并行执行（工具不存在或参数无法解析时按串行处理）
+   */
+  private isConcurrencySafe(call: ToolCall): boolean {
+    const tool = this.toolRegistry.get(call.name);
+    if (!tool || call.argumentsError) return false;
+
+    // 需要审批的调用逐个请求；审批规则无效时串行执行，由 executeToolCall 作为工具错误返回
+    try {
+      if (this.approvals.check(this.toolRegistry.getConfig(call.name), call)) return false;
+    } catch {
+      return false;
+    }
 
-        // 执行工具
-        const tool = this.toolRegistry.get(call.name);
-        if (!tool) {
-          throw new Error(`Tool not found: ${call.name}`);
+    const safe = tool.concurrencySafe;
+    if (typeof safe !== 'function') return safe === true;
+
+    try {
+      return safe(call.arguments);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 执行单个工具调用（错误记录在结果中，不会抛出）
+   */
+  private async executeToolCall(call: ToolCall, run: AgentRun, signal: AbortSignal): Promise<ToolCallResult> {
+    const runId = run.id;
+
+    // 已取消：剩余调用不再执行，但仍记录结果以保持调用与结果成对
+    if (signal.aborted) {
+      return { callId: call.id, name: call.name, result: null, error: 'Run cancelled' };
+    }
+
+    try {
+      // 发出工具开始事件
+      this.emit('tool', {
+        type: 'tool',
+        runId,
+        data: { phase: 'start', name: call.name, callId: call.id },
+      });
+
+      // 执行工具
+      const tool = this.toolRegistry.get(call.name);
+      if (!tool) {
+        throw new Error(`Tool not found: ${call.name}`);
+      }
+
+      if (call.argumentsError) {
+        throw new Error(call.argumentsError);
+      }
+
+      // 策略检查，拒绝时作为工具错误返回给模型
+      this.policy.enforce(call, { sessionId: run.sessionId, clientId: run.clientId });
+
+      // 敏感调用等待人工审批，拒绝或超时时作为工具错误返回给模型
+      const approvalReason = this.approvals.check(this.toolRegistry.getConfig(call.name), call);
+      if (approvalReason) {
+        const decision = await this.requestApproval(call, run, approvalReason, signal);
+        if (!decision.approved) {
+          throw new Error(`Tool call denied${decision.reason ? `: ${decision.reason}` : ''}`);
         }
+      }
 
-        const result = await tool.execute(call.id, call.arguments);
+      const result = await tool.execute(call.id, call.arguments, {
+        runId,
+        sessionId: run.sessionId,
+        signal,
+        onProgress: (progress) => {
+          this.emit('tool', {
+            type: 'tool',
+            runId,
+            data: { ...progress, phase: 'progress', name: call.name, callId: call.id },
+          });
+        },
+      });
 
-        // 发出工具完成事件
-        this.emit('tool', {
-          type: 'tool',
-          runId,
-          data: { phase: 'end', name: call.name, callId: call.id, result },
-        });
+      // 发出工具完成事件
+      this.emit('tool', {
+        type: 'tool',
+        runId,
+        data: { phase: 'end', name: call.name, callId: call.id, result },
+      });
 
-        results.push({ callId: call.id, name: call.name, result });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        
-        this.emit('tool', {
-          type: 'tool',
-          runId,
-          data: {
-            phase: 'error',
-            name: call.name,
-            callId: call.id,
-            error: errorMessage,
-          },
-        });
+      return { callId: call.id, name: call.name, result };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      this.emit('tool', {
+        type: 'tool',
+        runId,
+        data: {
+          phase: 'error',
+          name: call.name,
+          callId: call.id,
+          error: errorMessage,
+          // 参数校验失败时附带逐项问题，模型据此修正参数
+          issues: error instanceof ToolArgumentsError ? error.issues : undefined,
+          // 命令被规则拒绝时附带结构化原因
+          rejection: error instanceof CommandRejectedError ? error.rejection : undefined,
+        },
+      });
+
+      return { callId: call.id, name: call.name, result: null, error: errorMessage };
+    }
+  }
+
+  /**
+   * 请求审批：运行进入 awaiting_approval 状态并发出 approval 事件，决定后恢复
+   */
+  private async requestApproval(
+    call: ToolCall,
+    run: AgentRun,
+    reason: string,
+    signal: AbortSignal
+  ): Promise<ApprovalDecision> {
+    const runId = run.id;
+    let request: ApprovalRequest | undefined;
+
+    run.status = 'awaiting_approval';
+    const decision = await this.approvals.request({
+      runId,
+      sessionId: run.sessionId,
+      toolName: call.name,
+      callId: call.id,
+      arguments: call.arguments,
+      reason,
+      config: this.toolRegistry.getConfig(call.name),
+      signal,
+      onRequest: (created) => {
+        request = created;
+        this.emit('approval', { type: 'approval', runId, data: { phase: 'requested', request: created } });
+      },
+    });
 
-        results.push({ callId: call.id, name: call.name, result: null, error: errorMessage });
+    if (run.status === 'awaiting_approval') {
+      run.status = 'running';
+    }
+
+    this.emit('approval', {
+      type: 'approval',
+      runId,
+      data: { phase: 'resolved', approvalId: request?.id, callId: call.id, ...decision },
+    });
+
+    return decision;
+  }
+
+  /**
+   * 批准工具调用，审批不存在或已结束时返回 false
+   */
+  approve(approvalId: string, reason?: string): boolean {
+    return this.approvals.resolve(approvalId, true, reason);
+  }
+
+  /**
+   * 拒绝工具调用，审批不存在或已结束时返回 false
+   */
+  deny(approvalId: string, reason?: string): boolean {
+    return this.approvals.resolve(approvalId, false, reason);
+  }
+
+  /**
+   * 等待中的审批
+   */
+  getPendingApprovals(runId?: string): ApprovalRequest[] {
+    return this.approvals.list(runId);
+  }
+
+  /**
+   * 结束会话：释放会话持有的工具资源（如 keepAlive 的后台进程）
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    await this.toolRegistry.release({ sessionId });
+  }
+
+  /**
+   * 释放所有工具资源（退出前调用）
+   */
+  async dispose(): Promise<void> {
+    for (const controller of this.abortControllers.values()) {
+      controller.abort(new Error('Agent disposed'));
+    }
+    await this.toolRegistry.release();
+  }
+
+  /**
+   * 列出工作区检查点（从新到旧）
+   */
+  async listCheckpoints(sessionId?: string): Promise<CheckpointInfo[]> {
+    return this.checkpoints?.list(sessionId) ?? [];
+  }
+
+  /**
+   * 将工作区恢复到检查点
+   *
+   * session 为 true 时同时将检查点所属会话的消息截断到检查点创建时（检查点之后压缩过的会话无法回退）。
+   * 有运行进行中时拒绝执行。
+   */
+  async rewind(checkpointId: string, options: { session?: boolean } = {}): Promise<RewindResult> {
+    if (!this.checkpoints) {
+      throw new Error('Checkpoints are disabled');
+    }
+    if (this.activeRuns.size > 0) {
+      throw new Error('Cannot rewind while runs are active');
+    }
+
+    const checkpoint = await this.checkpoints.get(checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+
+    let session: Session | undefined;
+    if (options.session) {
+      if (!checkpoint.sessionId || checkpoint.messageCount === undefined) {
+        throw new Error(`Checkpoint ${checkpointId} is not tied to a session`);
+      }
+      session = await this.sessionManager.getOrCreate(checkpoint.sessionId);
+      const compactedAt = session.metadata?.lastCompactedAt as number | undefined;
+      if (compactedAt !== undefined && compactedAt >= checkpoint.createdAt) {
+        throw new Error(`Session ${session.id} was compacted after checkpoint ${checkpointId}`);
       }
     }
 
-    return results;
+    const result = await this.checkpoints.rewind(checkpointId);
+
+    if (session) {
+      const removed = session.messages.splice(checkpoint.messageCount!);
+      await this.sessionManager.save(session);
+      result.messagesRemoved = removed.length;
+    }
+
+    return result;
+  }
+
+  /**
+   * 手动压缩会话（与该会话的运行串行执行）
+   */
+  async compact(sessionId: string): Promise<CompactionResult | null> {
+    return this.scheduler.schedule(sessionId, async () => {
+      const session = await this.sessionManager.getOrCreate(sessionId);
+      return this.compactSession(session);
+    });
+  }
+
+  /**
+   * 压缩会话并发出 compacted 事件
+   */
+  private async compactSession(
+    session: Session,
+    runId?: string,
+    signal?: AbortSignal
+  ): Promise<CompactionResult | null> {
+    const result = await this.compactor.compact(session, signal);
+    if (result?.usage) {
+      await this.usageTracker.record(modelLabel(this.modelProvider.primary), result.usage, { session });
+      await this.sessionManager.save(session);
+    }
+    if (result) {
+      this.emit('compacted', { type: 'compacted', runId, data: result });
+    }
+    return result;
   }
 
   /**
@@ -270,10 +843,14 @@ Current Configuration:
    */
   cancel(runId: string): boolean {
     const run = this.activeRuns.get(runId);
-    if (run && run.status === 'running') {
-      run.status = 'cancelled';
-      run.endedAt = Date.now();
-      this.activeRuns.delete(runId);
+    const controller = this.abortControllers.get(runId);
+    if (
+      run &&
+      controller &&
+      (run.status === 'running' || run.status === 'pending' || run.status === 'awaiting_approval')
+    ) {
+      // 中止模型调用、工具执行和 Agent 循环，run() 负责保存部分输出并清理
+      controller.abort(new Error('Run cancelled'));
       return true;
     }
     return false;
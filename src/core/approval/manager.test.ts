@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { ApprovalManager } from './manager.js';
+
+const call = (args: Record<string, unknown>) => ({ id: 'call_1', name: 'exec', arguments: args });
+
+describe('ApprovalManager.check', () => {
+  it('requires approval when an argument matches a rule', () => {
+    const manager = new ApprovalManager();
+    const config = {
+      name: 'exec',
+      description: '',
+      parameters: {},
+      approval: { match: [{ argument: 'command', pattern: '^rm\\b' }] },
+    };
+    expect(manager.check(config, call({ command: 'rm -rf /' }))).toBe('Argument command matches ^rm\\b');
+    expect(manager.check(config, call({ command: 'ls' }))).toBeUndefined();
+    expect(manager.check({ ...config, approval: true }, call({}))).toBe('Tool exec requires approval');
+  });
+
+  it('reports invalid patterns as errors of the call', () => {
+    const manager = new ApprovalManager();
+    const config = {
+      name: 'exec',
+      description: '',
+      parameters: {},
+      approval: { match: [{ argument: 'command', pattern: '(' }] },
+    };
+    expect(() => manager.check(config, call({ command: 'ls' }))).toThrow(/Invalid approval pattern/);
+    expect(manager.check(config, call({}))).toBeUndefined();
+  });
+});
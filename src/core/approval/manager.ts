@@ -0,0 +1,156 @@
+/**
+ * Approval Manager - 工具调用人工审批
+ *
+ * - 按 ToolConfig.approval 判断调用是否需要审批（整个工具或参数匹配规则）
+ * - 挂起调用直到通过 approve / deny 作出决定
+ * - 超时或运行取消时视为拒绝
+ */
+
+import type { ToolApprovalPolicy, ToolCall, ToolConfig } from '../../types/index.js';
+
+export interface ApprovalRequest {
+  id: string;
+  runId: string;
+  sessionId: string;
+  toolName: string;
+  callId: string;
+  arguments: Record<string, unknown>;
+  /** 需要审批的原因 */
+  reason: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  reason?: string;
+  /** 由谁作出决定：人工、超时或运行取消 */
+  source: 'user' | 'timeout' | 'cancelled';
+}
+
+interface PendingApproval {
+  request: ApprovalRequest;
+  settle: (decision: ApprovalDecision) => void;
+}
+
+/** 默认审批超时（秒） */
+const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 300;
+
+export class ApprovalManager {
+  private pending: Map<string, PendingApproval> = new Map();
+  /** 已编译的参数匹配规则 */
+  private patterns: Map<string, RegExp> = new Map();
+
+  /**
+   * 调用是否需要审批，需要时返回原因
+   *
+   * @throws Error 规则的正则无效时（由调用方作为该次工具调用的错误处理）
+   */
+  check(config: ToolConfig | undefined, call: ToolCall): string | undefined {
+    const policy = normalizePolicy(config?.approval);
+    if (!policy) return undefined;
+
+    if (policy.always) {
+      return `Tool ${call.name} requires approval`;
+    }
+
+    for (const rule of policy.match ?? []) {
+      const value = call.arguments[rule.argument];
+      if (value === undefined) continue;
+
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      if (this.compile(rule.argument, rule.pattern).test(text)) {
+        return `Argument ${rule.argument} matches ${rule.pattern}`;
+      }
+    }
+
+    return undefined;
+  }
+
+  private compile(argument: string, pattern: string): RegExp {
+    let regex = this.patterns.get(pattern);
+    if (!regex) {
+      try {
+        regex = new RegExp(pattern);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid approval pattern for argument ${argument}: ${message}`);
+      }
+      this.patterns.set(pattern, regex);
+    }
+    return regex;
+  }
+
+  /**
+   * 请求审批，等待决定
+   *
+   * @param onRequest 请求创建后调用（用于通知审批方）
+   */
+  request(
+    params: Omit<ApprovalRequest, 'id' | 'createdAt' | 'expiresAt'> & {
+      config?: ToolConfig;
+      signal?: AbortSignal;
+      onRequest?: (request: ApprovalRequest) => void;
+    }
+  ): Promise<ApprovalDecision> {
+    const { config, signal, onRequest, ...fields } = params;
+    const timeoutSeconds =
+      normalizePolicy(config?.approval)?.timeoutSeconds ?? DEFAULT_APPROVAL_TIMEOUT_SECONDS;
+    const createdAt = Date.now();
+    const request: ApprovalRequest = {
+      ...fields,
+      id: `approval_${createdAt}_${Math.random().toString(36).slice(2)}`,
+      createdAt,
+      expiresAt: createdAt + timeoutSeconds * 1000,
+    };
+
+    return new Promise<ApprovalDecision>((resolve) => {
+      if (signal?.aborted) {
+        resolve({ approved: false, reason: 'Run cancelled', source: 'cancelled' });
+        return;
+      }
+
+      const onAbort = () => settle({ approved: false, reason: 'Run cancelled', source: 'cancelled' });
+      const timer = setTimeout(
+        () => settle({ approved: false, reason: `No response within ${timeoutSeconds}s`, source: 'timeout' }),
+        timeoutSeconds * 1000
+      );
+
+      const settle = (decision: ApprovalDecision) => {
+        if (!this.pending.delete(request.id)) return;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(decision);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(request.id, { request, settle });
+      onRequest?.(request);
+    });
+  }
+
+  /**
+   * 作出决定，审批不存在或已结束时返回 false
+   */
+  resolve(approvalId: string, approved: boolean, reason?: string): boolean {
+    const entry = this.pending.get(approvalId);
+    if (!entry) return false;
+
+    entry.settle({ approved, reason, source: 'user' });
+    return true;
+  }
+
+  /**
+   * 等待中的审批
+   */
+  list(runId?: string): ApprovalRequest[] {
+    return Array.from(this.pending.values())
+      .map((entry) => entry.request)
+      .filter((request) => !runId || request.runId === runId);
+  }
+}
+
+function normalizePolicy(approval: ToolConfig['approval']): ToolApprovalPolicy | undefined {
+  if (!approval) return undefined;
+  return approval === true ? { always: true } : approval;
+}
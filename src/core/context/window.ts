@@ -0,0 +1,156 @@
+/**
+ * Context Window - 基于 token 预算的上下文裁剪
+ *
+ * - 按模型估算每条消息的 token 数
+ * - 从最新消息往前选取，直到预算用尽
+ * - assistant 工具调用与其工具结果作为整体保留或丢弃，不会被拆开
+ * - 超大的工具输出截断并附加标记
+ * - 会话压缩摘要始终保留
+ */
+
+import type { Message } from '../../types/index.js';
+
+export interface ContextWindowOptions {
+  /** 可用于会话历史的 token 预算 */
+  budget: number;
+  /** 单个工具输出的最大 token 数 */
+  maxToolOutputTokens: number;
+  /** token 计数函数 */
+  countTokens: (text: string) => number;
+}
+
+/** 每条消息的格式开销（角色、分隔符等） */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * 选取适合预算的会话历史
+ */
+export function selectContextMessages(messages: Message[], options: ContextWindowOptions): Message[] {
+  const prepared = messages.map((msg) =>
+    msg.role === 'tool' ? truncateToolMessage(msg, options.maxToolOutputTokens, options.countTokens) : msg
+  );
+
+  // 压缩摘要始终保留
+  const pinned = prepared.filter((msg) => msg.kind === 'summary');
+  const groups = groupMessages(prepared.filter((msg) => msg.kind !== 'summary'));
+  const selected: Message[][] = [pinned];
+  let used = pinned.reduce((sum, msg) => sum + countMessageTokens(msg, options.countTokens), 0);
+
+  for (let i = groups.length - 1; i >= 0; i--) {
+    const group = groups[i];
+    const cost = group.reduce((sum, msg) => sum + countMessageTokens(msg, options.countTokens), 0);
+
+    // 最新的一组总是保留，即使超出预算
+    if (selected.length > 1 && used + cost > options.budget) break;
+
+    selected.splice(1, 0, group);
+    used += cost;
+  }
+
+  return selected.flat();
+}
+
+/**
+ * 估算单条消息的 token 数
+ */
+export function countMessageTokens(message: Message, countTokens: (text: string) => number): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+  if (message.toolResults && message.toolResults.length > 0) {
+    // 工具消息发送给模型的是 toolResults，content 只是其副本
+    for (const result of message.toolResults) {
+      tokens += countTokens(result.error ?? stringify(result.result));
+    }
+  } else {
+    tokens += countTokens(message.content);
+  }
+
+  for (const call of message.toolCalls ?? []) {
+    tokens += countTokens(call.name) + countTokens(JSON.stringify(call.arguments ?? {}));
+  }
+
+  return tokens;
+}
+
+/**
+ * 截断超大的工具输出（返回新消息，不修改原消息）
+ */
+export function truncateToolMessage(
+  message: Message,
+  maxTokens: number,
+  countTokens: (text: string) => number
+): Message {
+  if (!message.toolResults || message.toolResults.length === 0) {
+    const content = truncateText(message.content, maxTokens, countTokens);
+    return content === message.content ? message : { ...message, content };
+  }
+
+  let changed = false;
+  const toolResults = message.toolResults.map((result) => {
+    if (result.error) return result;
+
+    const text = stringify(result.result);
+    const truncated = truncateText(text, maxTokens, countTokens);
+    if (truncated === text) return result;
+
+    changed = true;
+    return { ...result, result: truncated };
+  });
+
+  if (!changed) return message;
+
+  return {
+    ...message,
+    content: toolResults.map((result) => result.error ?? stringify(result.result)).join('\n'),
+    toolResults,
+  };
+}
+
+/**
+ * 按 token 数截断文本，保留头尾
+ */
+export function truncateText(text: string, maxTokens: number, countTokens: (text: string) => number): string {
+  const tokens = countTokens(text);
+  if (tokens <= maxTokens) return text;
+
+  const keepChars = Math.max(0, Math.floor((text.length * maxTokens) / tokens));
+  const head = text.slice(0, Math.ceil(keepChars * 0.75));
+  const tail = keepChars - head.length > 0 ? text.slice(text.length - (keepChars - head.length)) : '';
+  const marker = `\n\n... [truncated ${tokens - maxTokens} of ${tokens} tokens] ...\n\n`;
+
+  return head + marker + tail;
+}
+
+/**
+ * 将消息分组：assistant 工具调用及其后续工具结果为一组，其余消息各自一组
+ * 找不到对应工具调用的孤立工具结果会被丢弃
+ */
+export function groupMessages(messages: Message[]): Message[][] {
+  const groups: Message[][] = [];
+  let pendingCallIds: Set<string> | null = null;
+
+  for (const msg of messages) {
+    if (msg.role === 'tool') {
+      const callIds = msg.toolResults?.map((result) => result.callId) ?? [];
+      if (pendingCallIds && callIds.every((id) => pendingCallIds!.has(id))) {
+        groups[groups.length - 1].push(msg);
+      }
+      continue;
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      pendingCallIds = new Set(msg.toolCalls.map((call) => call.id));
+    } else {
+      pendingCallIds = null;
+    }
+
+    groups.push([msg]);
+  }
+
+  return groups;
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value ?? null);
+}
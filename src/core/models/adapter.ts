@@ -0,0 +1,111 @@
+/**
+ * Model Adapter - 模型适配器接口
+ *
+ * 每个模型后端（OpenAI、Anthropic、Qwen 或自定义网关）实现同一接口，
+ * 由 ModelAdapterRegistry 按名称注册和创建
+ */
+
+import type { ModelConfig, ThinkingBlock, ThinkingLevel, ToolCall, ToolResult } from '../../types/index.js';
+
+export interface GenerateOptions {
+  messages: Array<{
+    role: string;
+    content: string;
+    toolCalls?: ToolCall[];
+    toolResults?: ToolResult[];
+    thinking?: ThinkingBlock[];
+  }>;
+  thinkingLevel?: ThinkingLevel;
+  tools?: Array<{ name: string; description: string; parameters: unknown }>;
+  temperature?: number;
+  maxTokens?: number;
+  /** 最终回复须符合的 JSON 结构 */
+  responseFormat?: ResponseFormat;
+  /** 取消信号 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 结构化输出格式
+ *
+ * 支持原生结构化输出的适配器直接约束回复；Anthropic 通过强制调用同名工具实现，
+ * 工具参数作为 JSON 文本返回
+ */
+export interface ResponseFormat {
+  name: string;
+  description?: string;
+  schema: Record<string, unknown>;
+}
+
+export interface GenerateResult {
+  text: string;
+  toolCalls?: ToolCall[];
+  /** 思考内容 */
+  thinking?: ThinkingBlock[];
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    /** 命中提示词缓存的输入 token（包含在 inputTokens 中） */
+    cachedTokens?: number;
+  };
+}
+
+/**
+ * 流式输出片段
+ *
+ * - text: 文本增量
+ * - thinking: 思考内容增量（与回复文本分开）
+ * - tool_call: 工具调用参数增量（arguments 为目前累积的完整 JSON 片段）
+ * - done: 流结束，携带完整结果
+ */
+export type StreamChunk =
+  | { type: 'text'; delta: string }
+  | { type: 'thinking'; delta: string }
+  | {
+      type: 'tool_call';
+      index: number;
+      id: string;
+      name: string;
+      argumentsDelta: string;
+      arguments: string;
+    }
+  | { type: 'done'; result: GenerateResult };
+
+/**
+ * 模型能力描述
+ */
+export interface ModelCapabilities {
+  /** 是否支持原生流式输出 */
+  streaming: boolean;
+  /** 是否支持工具调用 */
+  tools: boolean;
+  /** 是否支持单轮多个并行工具调用 */
+  parallelToolCalls: boolean;
+  /** 上下文窗口大小（token） */
+  contextWindow: number;
+  /** 最大输出 token */
+  maxOutputTokens?: number;
+  /** 是否支持原生思考 / 推理控制（thinkingLevel） */
+  reasoning: boolean;
+  /** 是否支持按 JSON Schema 约束回复（responseFormat） */
+  structuredOutput: boolean;
+}
+
+export interface ModelAdapter {
+  /** 适配器名称 */
+  readonly name: string;
+
+  /** 能力描述 */
+  readonly capabilities: ModelCapabilities;
+
+  /** 生成完整回复 */
+  generate(options: GenerateOptions): Promise<GenerateResult>;
+
+  /** 流式生成回复（未实现时由 ModelProvider 基于 generate 模拟） */
+  stream?(options: GenerateOptions): AsyncIterable<StreamChunk>;
+
+  /** 估算文本的 token 数 */
+  countTokens(text: string): number;
+}
+
+export type ModelAdapterFactory = (config: ModelConfig) => ModelAdapter;
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { GenerateOptions, StreamChunk } from '../adapter.js';
+import { AnthropicAdapter } from './anthropic.js';
+
+const usage = { input_tokens: 10, output_tokens: 5 };
+
+const options: GenerateOptions = {
+  messages: [{ role: 'user', content: 'hi' }],
+  tools: [{ name: 'exec', description: '', parameters: { type: 'object' } }],
+  responseFormat: { name: 'final_answer', schema: { type: 'object' } },
+};
+
+/** 用固定的响应（或流事件）替换 SDK 客户端 */
+function adapterReturning(response: unknown): AnthropicAdapter {
+  const adapter = new AnthropicAdapter({ provider: 'anthropic', model: 'claude-3-5-sonnet', apiKey: 'test' });
+  adapter['client'] = { messages: { create: async () => response } } as unknown as AnthropicAdapter['client'];
+  return adapter;
+}
+
+async function* events(...items: unknown[]) {
+  yield* items;
+}
+
+describe('AnthropicAdapter structured output', () => {
+  it('keeps the output payload when other tools are called in the same turn', async () => {
+    const adapter = adapterReturning({
+      content: [
+        { type: 'tool_use', id: 'call_1', name: 'exec', input: { command: 'ls' } },
+        { type: 'tool_use', id: 'call_2', name: 'final_answer', input: { answer: 42 } },
+      ],
+      usage,
+    });
+
+    const result = await adapter.generate(options);
+    expect(result.text).toBe('{"answer":42}');
+    expect(result.toolCalls).toBeUndefined();
+  });
+
+  it('keeps the streamed output payload when other tools are called in the same turn', async () => {
+    const adapter = adapterReturning(
+      events(
+        { type: 'message_start', message: { usage } },
+        {
+          type: 'content_block_start',
+          index: 0,
+          content_block: { type: 'tool_use', id: 'call_1', name: 'exec' },
+        },
+        {
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'input_json_delta', partial_json: '{"command":"ls"}' },
+        },
+        {
+          type: 'content_block_start',
+          index: 1,
+          content_block: { type: 'tool_use', id: 'call_2', name: 'final_answer' },
+        },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"answer":42}' } },
+        { type: 'message_delta', usage: { output_tokens: 5 } }
+      )
+    );
+
+    let done: Extract<StreamChunk, { type: 'done' }> | undefined;
+    for await (const chunk of adapter.stream(options)) {
+      if (chunk.type === 'done') done = chunk;
+    }
+    expect(done?.result.text).toBe('{"answer":42}');
+    expect(done?.result.toolCalls).toBeUndefined();
+  });
+
+  it('returns tool calls when the output tool is not called', async () => {
+    const adapter = adapterReturning({
+      content: [{ type: 'tool_use', id: 'call_1', name: 'exec', input: { command: 'ls' } }],
+      usage,
+    });
+
+    const result = await adapter.generate(options);
+    expect(result.toolCalls).toEqual([{ id: 'call_1', name: 'exec', arguments: { command: 'ls' } }]);
+  });
+});
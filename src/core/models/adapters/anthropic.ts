@@ -0,0 +1,354 @@
+/**
+ * Anthropic Adapter - Claude 模型适配器
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { ModelConfig, ThinkingBlock } from '../../../types/index.js';
+import type {
+  GenerateOptions,
+  GenerateResult,
+  ModelAdapter,
+  ModelCapabilities,
+  StreamChunk,
+} from '../adapter.js';
+import {
+  estimateTokens,
+  finalizeToolCalls,
+  stringifyToolResult,
+  type PartialToolCall,
+} from '../utils.js';
+import { thinkingBudget } from '../thinking.js';
+
+/**
+ * Extended thinking 相关的内容块与增量（旧版 SDK 类型中缺失）
+ */
+type ThinkingContentBlock =
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'redacted_thinking'; data: string };
+type ThinkingDelta = { type: 'thinking_delta'; thinking: string } | { type: 'signature_delta'; signature: string };
+
+export class AnthropicAdapter implements ModelAdapter {
+  readonly name = 'anthropic';
+  readonly capabilities: ModelCapabilities;
+  private config: ModelConfig;
+  private client: Anthropic;
+
+  constructor(config: ModelConfig) {
+    this.config = config;
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      baseURL: config.baseUrl,
+      // 重试由 ModelChain 统一处理
+      maxRetries: 0,
+    });
+
+    this.capabilities = {
+      streaming: true,
+      tools: true,
+      parallelToolCalls: true,
+      contextWindow: config.contextWindow ?? 200000,
+      maxOutputTokens: config.maxTokens ?? 4096,
+      reasoning: config.reasoning ?? /^claude-(3-7-sonnet|(opus|sonnet|haiku)-4)/.test(config.model),
+      structuredOutput: true,
+    };
+  }
+
+  /**
+   * 生成回复
+   */
+  async generate(options: GenerateOptions): Promise<GenerateResult> {
+    const response = await this.client.messages.create(this.buildParams(options), {
+      signal: options.signal,
+    });
+
+    // 提取文本和工具调用（可能包含多个文本块和并行工具调用）
+    const { text, toolCalls, thinking } = fromAnthropicContent(response.content);
+
+    // 结构化输出：强制调用的输出工具参数即为最终回复，同时发起的其他工具调用不再执行
+    const outputName = options.responseFormat?.name;
+    const output = toolCalls?.find((call) => call.name === outputName);
+
+    return {
+      text: output ? JSON.stringify(output.arguments) : text,
+      toolCalls: output ? undefined : toolCalls,
+      thinking,
+      usage: toUsage(response.usage),
+    };
+  }
+
+  /**
+   * 流式生成回复
+   */
+  async *stream(options: GenerateOptions): AsyncGenerator<StreamChunk> {
+    const stream = await this.client.messages.create(
+      {
+        ...this.buildParams(options),
+        stream: true,
+      },
+      { signal: options.signal }
+    );
+
+    let text = '';
+    const partials = new Map<number, PartialToolCall>();
+    // 结构化输出工具的参数作为回复文本输出
+    const outputName = options.responseFormat?.name;
+    const outputBlocks = new Set<number>();
+    let outputJson = '';
+    const thinkingBlocks = new Map<number, ThinkingBlock>();
+    let usage = { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'message_start':
+          usage = toUsage(event.message.usage);
+          break;
+
+        case 'content_block_start': {
+          const block = event.content_block as Anthropic.ContentBlock | ThinkingContentBlock;
+          if (block.type === 'tool_use' && block.name === outputName) {
+            outputBlocks.add(event.index);
+          } else if (block.type === 'tool_use') {
+            partials.set(event.index, {
+              id: block.id,
+              name: block.name,
+              arguments: '',
+            });
+          } else if (block.type === 'thinking') {
+            thinkingBlocks.set(event.index, { text: block.thinking, signature: block.signature || undefined });
+          } else if (block.type === 'redacted_thinking') {
+            thinkingBlocks.set(event.index, { text: '', redacted: block.data });
+          }
+          break;
+        }
+
+        case 'content_block_delta': {
+          const delta = event.delta as typeof event.delta | ThinkingDelta;
+          if (delta.type === 'thinking_delta') {
+            const block = thinkingBlocks.get(event.index);
+            if (block) block.text += delta.thinking;
+            yield { type: 'thinking', delta: delta.thinking };
+          } else if (delta.type === 'signature_delta') {
+            const block = thinkingBlocks.get(event.index);
+            if (block) block.signature = (block.signature ?? '') + delta.signature;
+          } else if (delta.type === 'text_delta') {
+            text += delta.text;
+            yield { type: 'text', delta: delta.text };
+          } else if (delta.type === 'input_json_delta' && outputBlocks.has(event.index)) {
+            outputJson += delta.partial_json;
+            yield { type: 'text', delta: delta.partial_json };
+          } else if (delta.type === 'input_json_delta') {
+            const partial = partials.get(event.index);
+            if (!partial) break;
+            partial.arguments += delta.partial_json;
+            yield {
+              type: 'tool_call',
+              index: event.index,
+              id: partial.id,
+              name: partial.name,
+              argumentsDelta: delta.partial_json,
+              arguments: partial.arguments,
+            };
+          }
+          break;
+        }
+
+        case 'message_delta':
+          usage.outputTokens = event.usage.output_tokens;
+          break;
+      }
+    }
+
+    yield {
+      type: 'done',
+      result: {
+        text: outputBlocks.size > 0 ? outputJson : text,
+        // 已给出结构化输出时运行结束，同时发起的其他工具调用不再执行
+        toolCalls: outputBlocks.size > 0 ? undefined : finalizeToolCalls(partials),
+        thinking: thinkingBlocks.size > 0 ? [...thinkingBlocks.values()] : undefined,
+        usage,
+      },
+    };
+  }
+
+  /**
+   * 估算 token 数
+   */
+  countTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  /**
+   * 构建请求参数
+   */
+  private buildParams(options: GenerateOptions): Anthropic.MessageCreateParamsNonStreaming {
+    const budget = this.capabilities.reasoning ? thinkingBudget(options.thinkingLevel) : undefined;
+    const maxTokens = options.maxTokens ?? this.config.maxTokens ?? 4096;
+
+    // 转换消息格式（启用思考时需回传带签名的思考块）
+    const { system, messages } = toAnthropicMessages(options.messages, budget !== undefined);
+
+    const params: Anthropic.MessageCreateParamsNonStreaming & {
+      thinking?: { type: 'enabled'; budget_tokens: number };
+    } = {
+      model: this.config.model,
+      // 启用思考时 max_tokens 须大于思考预算，回复部分仍保留 maxTokens
+      max_tokens: budget !== undefined ? budget + maxTokens : maxTokens,
+      system,
+      messages,
+      // 启用思考时不支持自定义 temperature
+      temperature: budget !== undefined ? undefined : (options.temperature ?? this.config.temperature ?? 0.7),
+      thinking: budget !== undefined ? { type: 'enabled', budget_tokens: budget } : undefined,
+    };
+
+    const tools: Anthropic.Tool[] = (options.tools ?? []).map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+    }));
+
+    // 结构化输出通过强制工具调用实现（启用思考时不支持强制调用，只能依赖提示词）
+    const format = options.responseFormat;
+    if (format) {
+      tools.push({
+        name: format.name,
+        description: format.description ?? 'Submit the final answer. Call this tool once the task is complete.',
+        input_schema: format.schema as Anthropic.Tool.InputSchema,
+      });
+      params.tool_choice = budget !== undefined ? { type: 'auto' } : { type: 'any' };
+    }
+
+    if (tools.length > 0) {
+      params.tools = tools;
+    }
+    return params;
+  }
+}
+
+/**
+ * 转换用量（缓存 token 字段在旧版 SDK 类型中缺失）
+ */
+function toUsage(usage: Anthropic.Usage): { inputTokens: number; outputTokens: number; cachedTokens: number } {
+  const cache = usage as Anthropic.Usage & {
+    cache_read_input_tokens?: number | null;
+    cache_creation_input_tokens?: number | null;
+  };
+  const cachedTokens = cache.cache_read_input_tokens ?? 0;
+
+  // Anthropic 的 input_tokens 不含缓存部分，统一为包含缓存的口径
+  return {
+    inputTokens: usage.input_tokens + cachedTokens + (cache.cache_creation_input_tokens ?? 0),
+    outputTokens: usage.output_tokens,
+    cachedTokens,
+  };
+}
+
+type AnthropicBlock =
+  | Anthropic.TextBlockParam
+  | Anthropic.ToolUseBlockParam
+  | Anthropic.ToolResultBlockParam
+  | ThinkingContentBlock;
+
+/**
+ * 将内部消息转换为 Anthropic 消息格式
+ *
+ * - system 消息合并为 system 参数
+ * - assistant 的 toolCalls 转换为 tool_use 块，启用思考时思考块放在最前
+ * - tool 消息的 toolResults 转换为 user 角色下的 tool_result 块
+ * - 相邻同角色消息合并，保证 user/assistant 交替
+ */
+function toAnthropicMessages(
+  messages: GenerateOptions['messages'],
+  includeThinking: boolean
+): {
+  system: string;
+  messages: Anthropic.MessageParam[];
+} {
+  const systemMessages: string[] = [];
+  const result: Array<{ role: 'user' | 'assistant'; content: AnthropicBlock[] }> = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      systemMessages.push(msg.content);
+      continue;
+    }
+
+    let role: 'user' | 'assistant';
+    const blocks: AnthropicBlock[] = [];
+
+    if (msg.role === 'assistant') {
+      role = 'assistant';
+      for (const block of includeThinking ? (msg.thinking ?? []) : []) {
+        if (block.redacted) {
+          blocks.push({ type: 'redacted_thinking', data: block.redacted });
+        } else if (block.signature) {
+          blocks.push({ type: 'thinking', thinking: block.text, signature: block.signature });
+        }
+      }
+      if (msg.content) {
+        blocks.push({ type: 'text', text: msg.content });
+      }
+      for (const call of msg.toolCalls ?? []) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+      }
+    } else if (msg.role === 'tool' && msg.toolResults && msg.toolResults.length > 0) {
+      role = 'user';
+      for (const toolResult of msg.toolResults) {
+        blocks.push({
+          type: 'tool_result',
+          tool_use_id: toolResult.callId,
+          content: toolResult.error ?? stringifyToolResult(toolResult.result),
+          is_error: toolResult.error ? true : undefined,
+        });
+      }
+    } else {
+      role = 'user';
+      if (msg.content) {
+        blocks.push({ type: 'text', text: msg.content });
+      }
+    }
+
+    if (blocks.length === 0) continue;
+
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  }
+
+  return { system: systemMessages.join('\n\n'), messages: result as Anthropic.MessageParam[] };
+}
+
+/**
+ * 将 Anthropic 响应内容块转换为文本、工具调用和思考内容
+ */
+function fromAnthropicContent(
+  content: Anthropic.ContentBlock[]
+): Pick<GenerateResult, 'text' | 'toolCalls' | 'thinking'> {
+  let text = '';
+  const toolCalls: NonNullable<GenerateResult['toolCalls']> = [];
+  const thinking: ThinkingBlock[] = [];
+
+  for (const block of content as Array<Anthropic.ContentBlock | ThinkingContentBlock>) {
+    if (block.type === 'text') {
+      text += block.text;
+    } else if (block.type === 'tool_use') {
+      toolCalls.push({
+        id: block.id,
+        name: block.name,
+        arguments: (block.input ?? {}) as Record<string, unknown>,
+      });
+    } else if (block.type === 'thinking') {
+      thinking.push({ text: block.thinking, signature: block.signature });
+    } else if (block.type === 'redacted_thinking') {
+      thinking.push({ text: '', redacted: block.data });
+    }
+  }
+
+  return {
+    text,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    thinking: thinking.length > 0 ? thinking : undefined,
+  };
+}
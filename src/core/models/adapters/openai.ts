@@ -0,0 +1,312 @@
+/**
+ * OpenAI Adapter - OpenAI 及兼容接口适配器
+ *
+ * 同时用于 Qwen（DashScope 兼容模式）以及 llama.cpp / Ollama 等
+ * 提供 OpenAI 兼容接口的本地服务
+ */
+
+import OpenAI from 'openai';
+import type { ModelConfig, ThinkingLevel } from '../../../types/index.js';
+import type {
+  GenerateOptions,
+  GenerateResult,
+  ModelAdapter,
+  ModelCapabilities,
+  ResponseFormat,
+  StreamChunk,
+} from '../adapter.js';
+import {
+  estimateTokens,
+  finalizeToolCalls,
+  parseToolArguments,
+  stringifyToolResult,
+  type PartialToolCall,
+} from '../utils.js';
+import { isOpenAIReasoningModel, reasoningEffort } from '../thinking.js';
+
+/** OpenAI 兼容服务（DeepSeek、Qwen、vLLM 等）在 message / delta 中附带的推理内容 */
+type WithReasoning<T> = T & { reasoning_content?: string | null };
+
+export interface OpenAIAdapterOptions {
+  /** 适配器名称 */
+  name?: string;
+  /** 默认 baseUrl（config.baseUrl 优先） */
+  defaultBaseUrl?: string;
+  /** 是否要求配置 baseUrl */
+  requireBaseUrl?: boolean;
+}
+
+export class OpenAIAdapter implements ModelAdapter {
+  readonly name: string;
+  readonly capabilities: ModelCapabilities;
+  protected config: ModelConfig;
+  protected client: OpenAI;
+
+  constructor(config: ModelConfig, options: OpenAIAdapterOptions = {}) {
+    this.name = options.name ?? 'openai';
+    this.config = config;
+
+    const baseURL = config.baseUrl || options.defaultBaseUrl;
+    if (options.requireBaseUrl && !baseURL) {
+      throw new Error(`baseUrl is required for ${this.name} adapter`);
+    }
+
+    this.client = new OpenAI({
+      // 本地兼容服务通常不校验 key，但 SDK 要求非空
+      apiKey: config.apiKey ?? (options.requireBaseUrl ? 'not-needed' : undefined),
+      baseURL,
+      // 重试由 ModelChain 统一处理
+      maxRetries: 0,
+    });
+
+    this.capabilities = {
+      streaming: true,
+      tools: true,
+      parallelToolCalls: true,
+      contextWindow: config.contextWindow ?? guessContextWindow(config.model),
+      maxOutputTokens: config.maxTokens,
+      reasoning: config.reasoning ?? this.isReasoningModel(config.model),
+      structuredOutput: true,
+    };
+  }
+
+  /**
+   * 生成回复
+   */
+  async generate(options: GenerateOptions): Promise<GenerateResult> {
+    const response = await this.client.chat.completions.create(this.buildParams(options), {
+      signal: options.signal,
+    });
+
+    const choice = response.choices[0];
+    const message = choice.message as WithReasoning<OpenAI.ChatCompletionMessage>;
+
+    // 提取工具调用
+    const toolCalls = message.tool_calls?.map((tc) => ({
+      id: tc.id,
+      name: tc.function.name,
+      ...parseToolArguments(tc.function.arguments),
+    }));
+
+    return {
+      text: message.content || '',
+      toolCalls,
+      thinking: message.reasoning_content ? [{ text: message.reasoning_content }] : undefined,
+      usage: {
+        inputTokens: response.usage?.prompt_tokens || 0,
+        outputTokens: response.usage?.completion_tokens || 0,
+        cachedTokens: response.usage?.prompt_tokens_details?.cached_tokens || 0,
+      },
+    };
+  }
+
+  /**
+   * 流式生成回复
+   */
+  async *stream(options: GenerateOptions): AsyncGenerator<StreamChunk> {
+    const stream = await this.client.chat.completions.create(
+      {
+        ...this.buildParams(options),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: options.signal }
+    );
+
+    let text = '';
+    let thinking = '';
+    const partials = new Map<number, PartialToolCall>();
+    const usage = { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        usage.inputTokens = chunk.usage.prompt_tokens || 0;
+        usage.outputTokens = chunk.usage.completion_tokens || 0;
+        usage.cachedTokens = chunk.usage.prompt_tokens_details?.cached_tokens || 0;
+      }
+
+      const delta = chunk.choices[0]?.delta as WithReasoning<OpenAI.ChatCompletionChunk.Choice.Delta> | undefined;
+      if (!delta) continue;
+
+      if (delta.reasoning_content) {
+        thinking += delta.reasoning_content;
+        yield { type: 'thinking', delta: delta.reasoning_content };
+      }
+
+      if (delta.content) {
+        text += delta.content;
+        yield { type: 'text', delta: delta.content };
+      }
+
+      // 工具调用按 index 分片到达，逐步拼接参数
+      for (const tc of delta.tool_calls ?? []) {
+        const partial = partials.get(tc.index) ?? { id: '', name: '', arguments: '' };
+        if (tc.id) partial.id = tc.id;
+        if (tc.function?.name) partial.name += tc.function.name;
+        const argumentsDelta = tc.function?.arguments ?? '';
+        partial.arguments += argumentsDelta;
+        partials.set(tc.index, partial);
+
+        yield {
+          type: 'tool_call',
+          index: tc.index,
+          id: partial.id,
+          name: partial.name,
+          argumentsDelta,
+          arguments: partial.arguments,
+        };
+      }
+    }
+
+    yield {
+      type: 'done',
+      result: {
+        text,
+        toolCalls: finalizeToolCalls(partials),
+        thinking: thinking ? [{ text: thinking }] : undefined,
+        usage,
+      },
+    };
+  }
+
+  /**
+   * 估算 token 数
+   */
+  countTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  /**
+   * 构建请求参数
+   */
+  protected buildParams(options: GenerateOptions): OpenAI.ChatCompletionCreateParamsNonStreaming {
+    const params: OpenAI.ChatCompletionCreateParamsNonStreaming = {
+      model: this.config.model,
+      messages: toOpenAIMessages(options.messages),
+      temperature: options.temperature ?? this.config.temperature ?? 0.7,
+      max_tokens: options.maxTokens ?? this.config.maxTokens,
+      tools: options.tools
+        ? options.tools.map((tool) => ({
+            type: 'function' as const,
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.parameters as Record<string, unknown>,
+            },
+          }))
+        : undefined,
+      response_format: options.responseFormat ? this.toResponseFormat(options.responseFormat) : undefined,
+    };
+
+    return this.capabilities.reasoning ? this.applyThinking(params, options.thinkingLevel) : params;
+  }
+
+  /**
+   * 结构化输出参数（非严格模式，允许可选字段）
+   */
+  protected toResponseFormat(format: ResponseFormat): OpenAI.ChatCompletionCreateParams['response_format'] {
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: format.name,
+        description: format.description,
+        schema: format.schema,
+        strict: false,
+      },
+    };
+  }
+
+  /**
+   * 按思考等级设置推理参数（仅推理模型）
+   *
+   * OpenAI 推理模型不支持 temperature，输出上限（含推理 token）使用 max_completion_tokens
+   */
+  protected applyThinking(
+    params: OpenAI.ChatCompletionCreateParamsNonStreaming,
+    level: ThinkingLevel | undefined
+  ): OpenAI.ChatCompletionCreateParamsNonStreaming {
+    const { temperature: _temperature, max_tokens, ...rest } = params;
+    return {
+      ...rest,
+      max_completion_tokens: max_tokens,
+      reasoning_effort: reasoningEffort(level),
+    };
+  }
+
+  /**
+   * 根据模型名推测是否为推理模型
+   */
+  protected isReasoningModel(model: string): boolean {
+    return isOpenAIReasoningModel(model);
+  }
+}
+
+/**
+ * 将内部消息转换为 OpenAI 消息格式
+ *
+ * - assistant 的 toolCalls 转换为 tool_calls
+ * - tool 消息的每个 toolResult 转换为一条带 tool_call_id 的 tool 消息
+ */
+function toOpenAIMessages(messages: GenerateOptions['messages']): OpenAI.ChatCompletionMessageParam[] {
+  const result: OpenAI.ChatCompletionMessageParam[] = [];
+
+  for (const msg of messages) {
+    switch (msg.role) {
+      case 'system':
+        result.push({ role: 'system', content: msg.content });
+        break;
+
+      case 'assistant':
+        if (msg.toolCalls && msg.toolCalls.length > 0) {
+          result.push({
+            role: 'assistant',
+            content: msg.content || null,
+            tool_calls: msg.toolCalls.map((call) => ({
+              id: call.id,
+              type: 'function' as const,
+              function: {
+                name: call.name,
+                arguments: JSON.stringify(call.arguments ?? {}),
+              },
+            })),
+          });
+        } else {
+          result.push({ role: 'assistant', content: msg.content });
+        }
+        break;
+
+      case 'tool':
+        if (msg.toolResults && msg.toolResults.length > 0) {
+          for (const toolResult of msg.toolResults) {
+            result.push({
+              role: 'tool',
+              tool_call_id: toolResult.callId,
+              content: toolResult.error
+                ? JSON.stringify({ error: toolResult.error })
+                : stringifyToolResult(toolResult.result),
+            });
+          }
+        } else {
+          result.push({ role: 'user', content: msg.content });
+        }
+        break;
+
+      default:
+        result.push({ role: 'user', content: msg.content });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 根据模型名推测上下文窗口
+ */
+function guessContextWindow(model: string): number {
+  if (/^(gpt-4o|gpt-4\.1|gpt-4-turbo|o\d|gpt-5)/.test(model)) return 128000;
+  if (model.startsWith('gpt-4-32k')) return 32768;
+  if (model.startsWith('gpt-4')) return 8192;
+  if (model.startsWith('gpt-3.5')) return 16385;
+  if (model.startsWith('qwen')) return 131072;
+  return 32768;
+}
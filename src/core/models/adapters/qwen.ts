@@ -0,0 +1,53 @@
+/**
+ * Qwen Adapter - 通义千问适配器（兼容 OpenAI API）
+ */
+
+import type OpenAI from 'openai';
+import type { ModelConfig, ThinkingLevel } from '../../../types/index.js';
+import { thinkingBudget } from '../thinking.js';
+import { OpenAIAdapter } from './openai.js';
+
+export class QwenAdapter extends OpenAIAdapter {
+  constructor(config: ModelConfig) {
+    super(config, {
+      name: 'qwen',
+      defaultBaseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
+    });
+  }
+
+  /**
+   * DashScope 兼容模式只支持 json_object，具体结构由提示词约束
+   */
+  protected toResponseFormat(): OpenAI.ChatCompletionCreateParams['response_format'] {
+    return { type: 'json_object' };
+  }
+
+  /**
+   * 混合思考模型通过 enable_thinking / thinking_budget 控制思考
+   */
+  protected applyThinking(
+    params: OpenAI.ChatCompletionCreateParamsNonStreaming,
+    level: ThinkingLevel | undefined
+  ): OpenAI.ChatCompletionCreateParamsNonStreaming {
+    if (!level) return params;
+
+    // 思考模式不支持结构化输出，此时关闭思考
+    const budget = params.response_format ? undefined : thinkingBudget(level);
+    const result: OpenAI.ChatCompletionCreateParamsNonStreaming & {
+      enable_thinking?: boolean;
+      thinking_budget?: number;
+    } = {
+      ...params,
+      enable_thinking: budget !== undefined,
+      thinking_budget: budget,
+    };
+    return result;
+  }
+
+  /**
+   * Qwen3 系列与 QwQ 支持思考模式
+   */
+  protected isReasoningModel(model: string): boolean {
+    return /^(qwen3|qwq|qwen-(plus|turbo|flash))/.test(model);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Model Errors - 模型调用错误分类
+ *
+ * - transient: 限流、服务端错误、超时、网络中断，可退避重试
+ * - persistent: 认证失败、请求非法、模型不存在等，重试无意义，应切换到下一个模型
+ */
+
+export type ModelErrorKind = 'transient' | 'persistent';
+
+const TRANSIENT_STATUS = new Set([408, 409, 425, 429]);
+
+const TRANSIENT_CODES = new Set([
+  'ETIMEDOUT',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+const TRANSIENT_NAMES = new Set(['APIConnectionError', 'APIConnectionTimeoutError', 'TimeoutError']);
+
+/**
+ * 错误分类
+ */
+export function classifyModelError(error: unknown): ModelErrorKind {
+  const err = error as { status?: unknown; code?: unknown; name?: unknown; cause?: unknown } | null;
+  if (!err || typeof err !== 'object') return 'persistent';
+
+  if (typeof err.status === 'number') {
+    if (TRANSIENT_STATUS.has(err.status) || err.status >= 500) return 'transient';
+    return 'persistent';
+  }
+
+  if (typeof err.name === 'string' && TRANSIENT_NAMES.has(err.name)) return 'transient';
+  if (typeof err.code === 'string' && TRANSIENT_CODES.has(err.code)) return 'transient';
+
+  // 网络错误通常包装在 cause 中
+  if (err.cause) return classifyModelError(err.cause);
+
+  return 'persistent';
+}
+
+/**
+ * 读取 Retry-After 头（毫秒）
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: Record<string, string | null | undefined> } | null)?.headers;
+  const value = headers?.['retry-after'];
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/**
+ * 所有模型均失败
+ */
+export class ModelFallbackError extends Error {
+  readonly attempts: Array<{ model: string; attempt: number; kind: ModelErrorKind; error: string }>;
+
+  constructor(attempts: ModelFallbackError['attempts']) {
+    const last = attempts[attempts.length - 1];
+    super(
+      `All models failed (${attempts.length} attempts)` + (last ? `, last error from ${last.model}: ${last.error}` : '')
+    );
+    this.name = 'ModelFallbackError';
+    this.attempts = attempts;
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Model Chain - 模型回退链
+ *
+ * 按顺序尝试多个模型：
+ * - 临时错误（429、5xx、超时）在同一模型上指数退避 + 抖动重试
+ * - 持久错误或重试耗尽后切换到下一个模型
+ * - 流式输出一旦开始，出错不再重试，避免重复输出
+ */
+
+import type { ModelConfig, RetryPolicy } from '../../types/index.js';
+import type { GenerateOptions, GenerateResult, ModelCapabilities, StreamChunk } from './adapter.js';
+import { ModelProvider } from './provider.js';
+import { ModelAdapterRegistry, modelAdapters } from './registry.js';
+import { classifyModelError, getRetryAfterMs, ModelFallbackError, type ModelErrorKind } from './errors.js';
+
+export type ModelChainEvent =
+  | { phase: 'retry'; model: string; attempt: number; delayMs: number; error: string }
+  | { phase: 'fallback'; model: string; failed: Array<{ model: string; kind: ModelErrorKind; error: string }> };
+
+export type ModelChainListener = (event: ModelChainEvent) => void;
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 2,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  multiplier: 2,
+  jitter: 0.5,
+};
+
+interface ChainEntry {
+  label: string;
+  config: ModelConfig;
+  provider: ModelProvider;
+  policy: Required<RetryPolicy>;
+}
+
+type Attempt = ModelFallbackError['attempts'][number];
+
+export class ModelChain {
+  private entries: ChainEntry[];
+
+  constructor(configs: ModelConfig | ModelConfig[], registry: ModelAdapterRegistry = modelAdapters) {
+    const list = Array.isArray(configs) ? configs : [configs];
+    if (list.length === 0) {
+      throw new Error('At least one model must be configured');
+    }
+
+    this.entries = list.map((config) => ({
+      label: modelLabel(config),
+      config,
+      provider: new ModelProvider(config, registry),
+      policy: { ...DEFAULT_RETRY_POLICY, ...config.retry },
+    }));
+  }
+
+  /**
+   * 首选模型配置
+   */
+  get primary(): ModelConfig {
+    return this.entries[0].config;
+  }
+
+  /**
+   * 首选模型能力
+   */
+  get capabilities(): ModelCapabilities {
+    return this.entries[0].provider.capabilities;
+  }
+
+  /**
+   * 估算 token 数（按首选模型）
+   */
+  countTokens(text: string): number {
+    return this.entries[0].provider.countTokens(text);
+  }
+
+  /**
+   * 生成回复（带重试与回退）
+   */
+  async generate(options: GenerateOptions, listener?: ModelChainListener): Promise<GenerateResult> {
+    const attempts: Attempt[] = [];
+    let lastError: unknown;
+
+    for (const [index, entry] of this.entries.entries()) {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await entry.provider.generate(options);
+          if (index > 0) this.emitFallback(entry, attempts, listener);
+          return result;
+        } catch (error) {
+          lastError = error;
+          if (!(await this.handleFailure(entry, attempt, error, attempts, listener, options.signal))) break;
+        }
+      }
+    }
+
+    throw this.exhausted(attempts, lastError);
+  }
+
+  /**
+   * 流式生成回复（带重试与回退）
+   */
+  async *stream(options: GenerateOptions, listener?: ModelChainListener): AsyncGenerator<StreamChunk> {
+    const attempts: Attempt[] = [];
+    let lastError: unknown;
+
+    for (const [index, entry] of this.entries.entries()) {
+      for (let attempt = 0; ; attempt++) {
+        let started = false;
+        try {
+          for await (const chunk of entry.provider.stream(options)) {
+            if (!started) {
+              started = true;
+              if (index > 0) this.emitFallback(entry, attempts, listener);
+            }
+            yield chunk;
+          }
+          return;
+        } catch (error) {
+          // 已输出部分内容，无法透明重试
+          if (started) throw error;
+          lastError = error;
+          if (!(await this.handleFailure(entry, attempt, error, attempts, listener, options.signal))) break;
+        }
+      }
+    }
+
+    throw this.exhausted(attempts, lastError);
+  }
+
+  /**
+   * 记录失败并决定是否在同一模型上重试
+   */
+  private async handleFailure(
+    entry: ChainEntry,
+    attempt: number,
+    error: unknown,
+    attempts: Attempt[],
+    listener: ModelChainListener | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<boolean> {
+    // 已取消：不重试也不回退
+    if (signal?.aborted) throw error;
+
+    const kind = classifyModelError(error);
+    const message = error instanceof Error ? error.message : String(error);
+    attempts.push({ model: entry.label, attempt, kind, error: message });
+
+    if (kind !== 'transient' || attempt >= entry.policy.maxRetries) {
+      return false;
+    }
+
+    const delayMs = computeDelay(entry.policy, attempt, error);
+    listener?.({ phase: 'retry', model: entry.label, attempt: attempt + 1, delayMs, error: message });
+    await sleep(delayMs, signal);
+    return true;
+  }
+
+  private emitFallback(entry: ChainEntry, attempts: Attempt[], listener?: ModelChainListener): void {
+    listener?.({
+      phase: 'fallback',
+      model: entry.label,
+      failed: attempts.map(({ model, kind, error }) => ({ model, kind, error })),
+    });
+  }
+
+  /**
+   * 单模型时保留原始错误，多模型时汇总所有尝试
+   */
+  private exhausted(attempts: Attempt[], lastError: unknown): unknown {
+    if (this.entries.length === 1 && lastError !== undefined) {
+      return lastError;
+    }
+    return new ModelFallbackError(attempts);
+  }
+}
+
+/**
+ * 模型标识（provider/model）
+ */
+export function modelLabel(config: ModelConfig): string {
+  const provider = config.provider === 'custom' ? config.adapter ?? 'custom' : config.provider;
+  return `${provider}/${config.model}`;
+}
+
+/**
+ * 计算退避时间：指数增长 + 抖动，优先遵循 Retry-After
+ */
+function computeDelay(policy: Required<RetryPolicy>, attempt: number, error: unknown): number {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, policy.maxDelayMs);
+  }
+
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.multiplier, attempt));
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+  return Math.round(base * (1 - jitter * Math.random()));
+}
+
+/**
+ * 可取消的等待
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * Model Adapter Registry - 模型适配器注册表
+ *
+ * 按名称注册模型后端，内置 openai、anthropic、qwen、openai-compatible，
+ * 'custom' 提供商通过 ModelConfig.adapter 指定已注册的适配器
+ */
+
+import type { ModelConfig } from '../../types/index.js';
+import type { ModelAdapter, ModelAdapterFactory } from './adapter.js';
+import { OpenAIAdapter } from './adapters/openai.js';
+import { AnthropicAdapter } from './adapters/anthropic.js';
+import { QwenAdapter } from './adapters/qwen.js';
+
+export class ModelAdapterRegistry {
+  private factories: Map<string, ModelAdapterFactory> = new Map();
+
+  /**
+   * 注册适配器
+   */
+  register(name: string, factory: ModelAdapterFactory): void {
+    this.factories.set(name, factory);
+  }
+
+  /**
+   * 注销适配器
+   */
+  unregister(name: string): boolean {
+    return this.factories.delete(name);
+  }
+
+  /**
+   * 获取适配器工厂
+   */
+  get(name: string): ModelAdapterFactory | undefined {
+    return this.factories.get(name);
+  }
+
+  /**
+   * 列出所有已注册的适配器名称
+   */
+  list(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * 根据模型配置创建适配器
+   */
+  create(config: ModelConfig): ModelAdapter {
+    const name = config.provider === 'custom' ? config.adapter : config.provider;
+    if (!name) {
+      throw new Error('ModelConfig.adapter is required for custom provider');
+    }
+
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Unsupported provider: ${name}`);
+    }
+
+    return factory(config);
+  }
+}
+
+/**
+ * 默认注册表（含内置适配器）
+ */
+export const modelAdapters = new ModelAdapterRegistry();
+
+modelAdapters.register('openai', (config) => new OpenAIAdapter(config));
+modelAdapters.register('anthropic', (config) => new AnthropicAdapter(config));
+modelAdapters.register('qwen', (config) => new QwenAdapter(config));
+modelAdapters.register(
+  'openai-compatible',
+  (config) => new OpenAIAdapter(config, { name: 'openai-compatible', requireBaseUrl: true })
+);
+
+/**
+ * 在默认注册表中注册适配器
+ */
+export function registerModelAdapter(name: string, factory: ModelAdapterFactory): void {
+  modelAdapters.register(name, factory);
+}
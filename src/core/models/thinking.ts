@@ -0,0 +1,54 @@
+/**
+ * Thinking - 思考等级到各提供商原生推理控制的映射
+ *
+ * - OpenAI 推理模型（o 系列、gpt-5）：reasoning_effort
+ * - Anthropic：extended thinking 的 budget_tokens
+ * - Qwen 等 OpenAI 兼容接口：enable_thinking + thinking_budget
+ */
+
+import type { ThinkingLevel } from '../../types/index.js';
+
+/** 各等级对应的思考 token 预算 */
+const THINKING_BUDGETS: Record<Exclude<ThinkingLevel, 'off'>, number> = {
+  minimal: 1024,
+  low: 2048,
+  medium: 8192,
+  high: 16384,
+  xhigh: 32768,
+};
+
+/**
+ * 思考 token 预算，off 或未设置时返回 undefined
+ */
+export function thinkingBudget(level: ThinkingLevel | undefined): number | undefined {
+  if (!level || level === 'off') return undefined;
+  return THINKING_BUDGETS[level];
+}
+
+/**
+ * OpenAI reasoning_effort，未设置时返回 undefined（使用服务端默认值）
+ *
+ * 推理模型无法关闭推理，off 按最低档处理
+ */
+export function reasoningEffort(level: ThinkingLevel | undefined): 'low' | 'medium' | 'high' | undefined {
+  switch (level) {
+    case 'off':
+    case 'minimal':
+    case 'low':
+      return 'low';
+    case 'medium':
+      return 'medium';
+    case 'high':
+    case 'xhigh':
+      return 'high';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 是否为 OpenAI 推理模型
+ */
+export function isOpenAIReasoningModel(model: string): boolean {
+  return /^(o\d|gpt-5)/.test(model);
+}
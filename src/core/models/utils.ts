@@ -0,0 +1,77 @@
+/**
+ * Model Utils - 模型适配器公用工具
+ */
+
+import type { ToolCall } from '../../types/index.js';
+
+export interface PartialToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * 将流式累积的工具调用转换为最终结果
+ */
+export function finalizeToolCalls(partials: Map<number, PartialToolCall>): ToolCall[] | undefined {
+  if (partials.size === 0) return undefined;
+
+  return [...partials.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, partial]) => ({
+      id: partial.id,
+      name: partial.name,
+      ...parseToolArguments(partial.arguments),
+    }));
+}
+
+/**
+ * 解析工具调用参数
+ *
+ * 模型偶尔会输出不完整或非法的 JSON，此时不抛出异常，
+ * 而是记录 argumentsError，由 Agent 作为工具错误反馈给模型
+ */
+export function parseToolArguments(raw: string | undefined): Pick<ToolCall, 'arguments' | 'argumentsError'> {
+  if (!raw || !raw.trim()) {
+    return { arguments: {} };
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return { arguments: {}, argumentsError: 'Tool arguments must be a JSON object' };
+    }
+    return { arguments: parsed as Record<string, unknown> };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { arguments: {}, argumentsError: `Invalid JSON in tool arguments: ${message}` };
+  }
+}
+
+/**
+ * 工具结果序列化为文本
+ */
+export function stringifyToolResult(result: unknown): string {
+  if (typeof result === 'string') return result;
+  return JSON.stringify(result ?? null);
+}
+
+/**
+ * 粗略估算 token 数
+ *
+ * 不依赖分词器：ASCII 约 4 字符 1 token，CJK 等宽字符约 1 字符 1 token
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let wide = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 0x80) {
+      ascii++;
+    } else {
+      wide++;
+    }
+  }
+
+  return Math.ceil(ascii / 4) + wide;
+}
@@ -0,0 +1,134 @@
+/**
+ * Structured Output - 结构化输出
+ *
+ * 运行时传入 zod schema 或 JSON Schema：
+ * - 通过提供商原生的结构化输出（OpenAI json_schema）或强制工具调用（Anthropic）约束最终回复
+ * - 校验最终回复，不符合时把校验错误反馈给模型重新作答
+ * - 解析结果写入 AgentRun.output
+ */
+
+import type { ZodType } from 'zod';
+import type { ResponseFormat } from '../models/adapter.js';
+import {
+  formatIssue,
+  isZodSchema,
+  validateJsonSchema,
+  zodIssues,
+  zodToJsonSchema,
+  type JsonSchema,
+} from '../schema/json-schema.js';
+
+export interface StructuredOutputOptions<T = unknown> {
+  /** 输出结构：zod schema 或 JSON Schema */
+  schema: ZodType<T> | JsonSchema;
+  /** 名称（用作原生 schema 名称或强制调用的工具名），默认 final_answer */
+  name?: string;
+  description?: string;
+  /** 校验失败后重新提示的最大次数，默认 2 */
+  maxRetries?: number;
+}
+
+export type StructuredOutputResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+export class StructuredOutputError extends Error {
+  readonly issues: string[];
+  /** 最后一次模型回复 */
+  readonly text: string;
+
+  constructor(issues: string[], text: string) {
+    super(`Structured output validation failed: ${issues.join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.issues = issues;
+    this.text = text;
+  }
+}
+
+const DEFAULT_OUTPUT_NAME = 'final_answer';
+const DEFAULT_MAX_RETRIES = 2;
+
+export class StructuredOutput<T = unknown> {
+  readonly name: string;
+  readonly maxRetries: number;
+  readonly jsonSchema: JsonSchema;
+  private options: StructuredOutputOptions<T>;
+
+  constructor(options: StructuredOutputOptions<T>) {
+    this.options = options;
+    this.name = options.name ?? DEFAULT_OUTPUT_NAME;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.jsonSchema = isZodSchema(options.schema) ? zodToJsonSchema(options.schema) : options.schema;
+  }
+
+  /**
+   * 传给模型适配器的响应格式
+   */
+  get responseFormat(): ResponseFormat {
+    return {
+      name: this.name,
+      description: this.options.description,
+      schema: this.jsonSchema,
+    };
+  }
+
+  /**
+   * 追加到系统提示词的输出要求（不支持原生结构化输出的模型依赖该提示）
+   */
+  get instructions(): string {
+    return `Final Answer Format:
+When the task is complete, reply with a single JSON value and nothing else, matching this JSON Schema:
+${JSON.stringify(this.jsonSchema)}`;
+  }
+
+  /**
+   * 解析并校验模型回复
+   */
+  parse(text: string): StructuredOutputResult<T> {
+    let value: unknown;
+    try {
+      value = JSON.parse(extractJson(text));
+    } catch (error) {
+      return {
+        success: false,
+        issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+      };
+    }
+
+    const schema = this.options.schema;
+    if (isZodSchema(schema)) {
+      const result = schema.safeParse(value);
+      if (result.success) {
+        return { success: true, data: result.data as T };
+      }
+      return { success: false, issues: zodIssues(result.error).map(formatIssue) };
+    }
+
+    const issues = validateJsonSchema(value, schema).map(formatIssue);
+    return issues.length === 0 ? { success: true, data: value as T } : { success: false, issues };
+  }
+
+  /**
+   * 校验失败后重新提示模型的消息
+   */
+  retryPrompt(issues: string[]): string {
+    return `Your final answer did not match the required JSON Schema:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+Reply again with only the corrected JSON.`;
+  }
+}
+
+/**
+ * 从回复中提取 JSON（去掉 Markdown 代码块和前后说明文字）
+ */
+function extractJson(text: string): string {
+  const trimmed = text.trim();
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(trimmed);
+  if (fenced) return fenced[1].trim();
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return trimmed;
+
+  const start = trimmed.search(/[{[]/);
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  return start !== -1 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
@@ -0,0 +1,340 @@
+/**
+ * Command Policy - 命令规则
+ *
+ * 命令先解析为 shell 语法树，管道、列表、命令组、命令替换中的每个简单命令分别检查：
+ * - 规则形如 `rm -rf`、`git push *`：第一个词匹配命令名（glob，不含 / 时按 basename 匹配），
+ *   其余词为参数条件：短选项按字母检查（`-rf` 匹配 `-fr`、`-r -f`），长选项按名称检查，
+ *   常用命令的等价长短选项视为相同（`rm -rf` 匹配 `rm --recursive --force`、`rm -Rf`），
+ *   其他词按顺序匹配位置参数（glob），`*` 不作限制
+ * - sudo、env、xargs、timeout、find -exec、sh -c、eval 等包装的命令也会被检查
+ * - 从管道、here-string 或重定向读取脚本的 shell（`curl x | sh`、`bash <<< ...`）无法静态确定脚本，视为违反规则
+ * - 命令名含展开（`$CMD`、`$(...)`）时无法静态确定，视为违反规则
+ */
+
+import { basename } from 'path';
+import { listSimpleCommands, parseShell, ShellParseError, type ShellWord } from '../utils/shell.js';
+import { matchGlob } from '../utils/glob.js';
+
+export interface ParsedCommand {
+  /** 命令名，含展开而无法静态确定时为 undefined */
+  executable?: string;
+  args: string[];
+  /** 命令原文 */
+  text: string;
+}
+
+export interface CommandRejection {
+  reason: 'parse-error' | 'dynamic-command' | 'blocked' | 'not-allowed';
+  /** 被拒绝的简单命令 */
+  command?: string;
+  executable?: string;
+  /** 命中的规则（blocked） */
+  rule?: string;
+  message: string;
+}
+
+export class CommandRejectedError extends Error {
+  readonly rejection: CommandRejection;
+
+  constructor(rejection: CommandRejection) {
+    super(`Command rejected (${rejection.reason}): ${rejection.message}`);
+    this.name = 'CommandRejectedError';
+    this.rejection = rejection;
+  }
+}
+
+/** 包装其他命令的程序，以及其需要参数值的选项 */
+const WRAPPERS: Record<string, { valueOptions: string[]; positional?: number }> = {
+  sudo: { valueOptions: ['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U', '-R', '-T'] },
+  doas: { valueOptions: ['-u', '-C'] },
+  env: { valueOptions: ['-u', '-C', '-S', '--unset', '--chdir'] },
+  nice: { valueOptions: ['-n', '--adjustment'] },
+  ionice: { valueOptions: ['-c', '-n', '-p'] },
+  nohup: { valueOptions: [] },
+  time: { valueOptions: ['-f', '-o'] },
+  command: { valueOptions: [] },
+  exec: { valueOptions: ['-a'] },
+  stdbuf: { valueOptions: ['-i', '-o', '-e'] },
+  timeout: { valueOptions: ['-s', '-k', '--signal', '--kill-after'], positional: 1 },
+  watch: { valueOptions: ['-n', '-d', '--interval'] },
+  xargs: { valueOptions: ['-I', '-i', '-n', '-d', '-a', '-E', '-e', '-L', '-l', '-P', '-s'] },
+};
+
+/**
+ * 常用命令的等价选项（单个字母为短选项，其余为长选项），比较时统一为每组的第一个写法；
+ * 长选项的缩写（如 `--rec`）同样识别
+ */
+const OPTION_ALIASES: Record<string, string[][]> = {
+  rm: [['r', 'R', 'recursive'], ['f', 'force'], ['d', 'dir']],
+  rmdir: [['p', 'parents']],
+  cp: [['r', 'R', 'recursive'], ['f', 'force']],
+  mv: [['f', 'force']],
+  ln: [['f', 'force'], ['s', 'symbolic']],
+  chmod: [['R', 'recursive']],
+  chown: [['R', 'recursive']],
+  chgrp: [['R', 'recursive']],
+  git: [['f', 'force'], ['d', 'delete']],
+  curl: [['o', 'output'], ['O', 'remote-name'], ['d', 'data'], ['X', 'request']],
+  wget: [['O', 'output-document']],
+  sed: [['i', 'in-place']],
+};
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'ash']);
+/** shell 需要参数值的选项（短选项簇中含 o、O 时同样需要） */
+const SHELL_VALUE_OPTIONS = new Set(['--rcfile', '--init-file']);
+/** 指向标准输入的脚本文件 */
+const STDIN_FILES = new Set(['/dev/stdin', '/dev/fd/0', '/proc/self/fd/0']);
+const FIND_EXEC = new Set(['-exec', '-execdir', '-ok', '-okdir']);
+const MAX_DEPTH = 8;
+
+/**
+ * 解析命令中的所有简单命令（含被包装的命令）
+ *
+ * @throws ShellParseError 无法解析时
+ */
+export function extractCommands(source: string, depth = 0): ParsedCommand[] {
+  if (depth > MAX_DEPTH) {
+    throw new ShellParseError('Commands are nested too deeply', 0);
+  }
+
+  const commands: ParsedCommand[] = [];
+  for (const command of listSimpleCommands(parseShell(source))) {
+    collect(command.words, commands, depth, command.stdinFed);
+  }
+  return commands;
+}
+
+/**
+ * 检查命令，违反规则时返回原因
+ */
+export function checkCommand(
+  source: string,
+  rules: { allow?: string[]; deny?: string[] }
+): CommandRejection | undefined {
+  const allow = rules.allow ?? [];
+  const deny = rules.deny ?? [];
+  if (allow.length === 0 && deny.length === 0) return undefined;
+
+  let commands: ParsedCommand[];
+  try {
+    commands = extractCommands(source);
+  } catch (error) {
+    return { reason: 'parse-error', message: `Cannot parse command: ${errorMessage(error)}` };
+  }
+
+  for (const command of commands) {
+    if (command.executable === undefined) {
+      return {
+        reason: 'dynamic-command',
+        command: command.text,
+        message: `Executable cannot be determined before execution: ${command.text}`,
+      };
+    }
+
+    const blocked = deny.find((rule) => matchCommandRule(command, rule));
+    if (blocked) {
+      return {
+        reason: 'blocked',
+        command: command.text,
+        executable: command.executable,
+        rule: blocked,
+        message: `${command.text} matches blocked rule "${blocked}"`,
+      };
+    }
+
+    if (allow.length > 0 && !allow.some((rule) => matchCommandRule(command, rule))) {
+      return {
+        reason: 'not-allowed',
+        command: command.text,
+        executable: command.executable,
+        message: `${command.text} is not in the allowlist`,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 命令是否匹配规则
+ *
+ * - every：所有简单命令都匹配（用于允许规则，无法解析或无法确定命令名时不匹配）
+ * - some：任一简单命令匹配（用于拒绝规则，无法解析或无法确定命令名时视为匹配）
+ */
+export function commandMatches(source: string, rule: string, mode: 'every' | 'some'): boolean {
+  let commands: ParsedCommand[];
+  try {
+    commands = extractCommands(source);
+  } catch {
+    return mode === 'some';
+  }
+
+  return mode === 'every'
+    ? commands.every((command) => matchCommandRule(command, rule))
+    : commands.some((command) => command.executable === undefined || matchCommandRule(command, rule));
+}
+
+/**
+ * 单个简单命令是否匹配规则
+ */
+export function matchCommandRule(command: ParsedCommand, rule: string): boolean {
+  const [pattern, ...conditions] = rule.trim().split(/\s+/);
+  if (!pattern || command.executable === undefined) return false;
+
+  const name = pattern.includes('/') ? command.executable : basename(command.executable);
+  if (!matchGlob(name, pattern)) return false;
+
+  const aliases = OPTION_ALIASES[basename(command.executable)] ?? [];
+  const canonical = (flag: string, long: boolean) =>
+    aliases.find((group) =>
+      group.some((alias) => alias === flag || (long && alias.length > 1 && alias.startsWith(flag)))
+    )?.[0] ?? flag;
+
+  const flags = new Set<string>();
+  /** `--` 之前的选项原文，条件按字母不匹配时按原样比较（如 `find -name`） */
+  const options = new Set<string>();
+  const positional: string[] = [];
+  let optionsEnded = false;
+
+  for (const arg of command.args) {
+    if (optionsEnded || arg === '-' || !arg.startsWith('-')) {
+      positional.push(arg);
+    } else if (arg === '--') {
+      optionsEnded = true;
+    } else if (arg.startsWith('--')) {
+      options.add(arg);
+      flags.add(canonical(arg.slice(2).split('=')[0], true));
+    } else {
+      options.add(arg);
+      for (const flag of arg.slice(1)) flags.add(canonical(flag, false));
+    }
+  }
+
+  let index = 0;
+  for (const condition of conditions) {
+    if (condition === '*') {
+      index++;
+      continue;
+    }
+
+    if (condition.startsWith('--')) {
+      if (!flags.has(canonical(condition.slice(2), true))) return false;
+    } else if (/^-[A-Za-z0-9]+$/.test(condition)) {
+      const matched = condition
+        .slice(1)
+        .split('')
+        .every((flag) => flags.has(canonical(flag, false)));
+      if (!matched && !options.has(condition)) return false;
+    } else {
+      const arg = positional[index++];
+      if (arg === undefined || !matchGlob(arg, condition)) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 记录命令，并展开其包装的命令
+ *
+ * @param stdinFed 标准输入来自管道或重定向（被包装的命令继承）
+ */
+function collect(words: ShellWord[], commands: ParsedCommand[], depth: number, stdinFed: boolean): void {
+  if (words.length === 0) return;
+
+  const [first, ...rest] = words;
+  commands.push({
+    executable: first.dynamic ? undefined : first.text,
+    args: rest.map((word) => word.text),
+    text: words.map((word) => word.raw).join(' '),
+  });
+  if (first.dynamic) return;
+
+  const name = basename(first.text);
+
+  const wrapper = WRAPPERS[name];
+  if (wrapper) {
+    collect(unwrap(rest, name, wrapper), commands, depth, stdinFed);
+    return;
+  }
+
+  if (name === 'find') {
+    for (let i = 0; i < rest.length; i++) {
+      if (!FIND_EXEC.has(rest[i].text)) continue;
+      const end = rest.findIndex((word, j) => j > i && (word.text === ';' || word.text === '+'));
+      collect(rest.slice(i + 1, end === -1 ? undefined : end), commands, depth, stdinFed);
+    }
+    return;
+  }
+
+  // sh -c 'script' 与 eval：脚本内容同样解析检查
+  let script: ShellWord[] | undefined;
+  if (SHELLS.has(name)) {
+    const flagIndex = rest.findIndex((word) => /^-[A-Za-z]*c[A-Za-z]*$/.test(word.text));
+    if (flagIndex !== -1 && rest[flagIndex + 1]) {
+      script = [rest[flagIndex + 1]];
+    } else if (flagIndex === -1 && stdinFed && readsScriptFromStdin(rest)) {
+      // 脚本来自管道或重定向，内容在执行时才能确定
+      commands.push({ executable: undefined, args: [], text: words.map((word) => word.raw).join(' ') });
+      return;
+    }
+  } else if (name === 'eval') {
+    script = rest;
+  }
+
+  if (script) {
+    if (script.some((word) => word.dynamic)) {
+      commands.push({ executable: undefined, args: [], text: script.map((word) => word.raw).join(' ') });
+    } else {
+      commands.push(...extractCommands(script.map((word) => word.text).join(' '), depth + 1));
+    }
+  }
+}
+
+/**
+ * 不带 -c 的 shell 是否从标准输入读取脚本：带 -s、没有脚本文件参数，或脚本文件就是标准输入
+ */
+function readsScriptFromStdin(args: ShellWord[]): boolean {
+  for (let i = 0; i < args.length; i++) {
+    const text = args[i].text;
+    if (text === '--' || text === '-') {
+      const script = args[i + 1];
+      return script === undefined || STDIN_FILES.has(script.text);
+    }
+    if (/^[-+][A-Za-z]+$/.test(text)) {
+      if (text.startsWith('-') && text.includes('s')) return true;
+      if (/[oO]/.test(text)) i++;
+    } else if (text.startsWith('--')) {
+      if (SHELL_VALUE_OPTIONS.has(text)) i++;
+    } else {
+      return STDIN_FILES.has(text);
+    }
+  }
+  return true;
+}
+
+/**
+ * 跳过包装程序的选项、环境变量赋值和固定位置参数，返回被包装的命令
+ */
+function unwrap(args: ShellWord[], name: string, wrapper: (typeof WRAPPERS)[string]): ShellWord[] {
+  let i = 0;
+  while (i < args.length) {
+    const text = args[i].text;
+    if (text === '--') {
+      i++;
+      break;
+    }
+    if (name === 'env' && /^[A-Za-z_][A-Za-z0-9_]*=/.test(text)) {
+      i++;
+    } else if (text.startsWith('-') && text !== '-') {
+      i += wrapper.valueOptions.includes(text) ? 2 : 1;
+    } else {
+      break;
+    }
+  }
+  return args.slice(i + (wrapper.positional ?? 0));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,149 @@
+/**
+ * Policy Engine - 工具调用策略
+ *
+ * 每次执行工具前按规则顺序求值，第一条匹配的规则决定允许或拒绝：
+ * - 按工具、动作（args.action）、参数（glob）和命令（command 参数按 shell 语法解析）匹配
+ * - 可限定会话和网关客户端
+ * - ToolConfig 的 allowlist / denylist 转换为该工具的规则，排在 policy.rules 之后
+ * - 没有规则匹配时使用 policy.default（默认 allow）
+ */
+
+import type { ToolCall, ToolConfig, ToolPolicyConfig, ToolPolicyRule } from '../../types/index.js';
+import { matchAnyGlob, matchGlob } from '../utils/glob.js';
+import { commandMatches } from './command.js';
+
+export interface PolicyContext {
+  sessionId?: string;
+  clientId?: string;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  /** 匹配的规则（默认决定时为 undefined） */
+  rule?: ToolPolicyRule;
+  reason?: string;
+}
+
+export class ToolPolicyError extends Error {
+  readonly toolName: string;
+  readonly rule?: ToolPolicyRule;
+
+  constructor(toolName: string, decision: PolicyDecision) {
+    super(`Tool call denied by policy: ${decision.reason ?? toolName}`);
+    this.name = 'ToolPolicyError';
+    this.toolName = toolName;
+    this.rule = decision.rule;
+  }
+}
+
+export class PolicyEngine {
+  private rules: ToolPolicyRule[];
+  private defaultEffect: 'allow' | 'deny';
+
+  constructor(config: ToolPolicyConfig = {}, tools: ToolConfig[] = []) {
+    this.rules = [...(config.rules ?? []), ...tools.flatMap(listRules)];
+    this.defaultEffect = config.default ?? 'allow';
+  }
+
+  /**
+   * 求值
+   */
+  evaluate(call: Pick<ToolCall, 'name' | 'arguments'>, context: PolicyContext = {}): PolicyDecision {
+    for (const rule of this.rules) {
+      if (!matchesRule(rule, call, context)) continue;
+
+      return {
+        allowed: rule.effect === 'allow',
+        rule,
+        reason: rule.reason ?? describeRule(rule),
+      };
+    }
+
+    return {
+      allowed: this.defaultEffect === 'allow',
+      reason: this.defaultEffect === 'deny' ? `No policy rule allows ${call.name}` : undefined,
+    };
+  }
+
+  /**
+   * 求值，拒绝时抛出 ToolPolicyError
+   */
+  enforce(call: Pick<ToolCall, 'name' | 'arguments'>, context: PolicyContext = {}): void {
+    const decision = this.evaluate(call, context);
+    if (!decision.allowed) {
+      throw new ToolPolicyError(call.name, decision);
+    }
+  }
+}
+
+function matchesRule(
+  rule: ToolPolicyRule,
+  call: Pick<ToolCall, 'name' | 'arguments'>,
+  context: PolicyContext
+): boolean {
+  if (rule.tool && !matchGlob(call.name, rule.tool)) return false;
+
+  if (rule.action) {
+    const action = call.arguments.action;
+    if (typeof action !== 'string' || !matchGlob(action, rule.action)) return false;
+  }
+
+  for (const [key, pattern] of Object.entries(rule.args ?? {})) {
+    const value = call.arguments[key];
+    if (value === undefined) return false;
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    if (!matchGlob(text, pattern)) return false;
+  }
+
+  if (rule.command) {
+    const command = call.arguments.command;
+    if (typeof command !== 'string') return false;
+    if (!commandMatches(command, rule.command, rule.effect === 'allow' ? 'every' : 'some')) return false;
+  }
+
+  if (rule.sessions && (!context.sessionId || !matchAnyGlob(context.sessionId, rule.sessions))) {
+    return false;
+  }
+  if (rule.clients && (!context.clientId || !matchAnyGlob(context.clientId, rule.clients))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * 将 ToolConfig 的 allowlist / denylist 转换为规则
+ *
+ * 条目匹配调用的 action 参数（glob），没有 action 参数时作为命令规则匹配 command 参数：
+ * denylist 命中即拒绝；设置了 allowlist 时未命中的调用被拒绝
+ */
+function listRules(config: ToolConfig): ToolPolicyRule[] {
+  const rules: ToolPolicyRule[] = [];
+  const subjectRule = (pattern: string, effect: 'allow' | 'deny'): ToolPolicyRule[] => [
+    { tool: config.name, action: pattern, effect },
+    { tool: config.name, command: pattern, effect },
+  ];
+
+  for (const pattern of config.denylist ?? []) {
+    rules.push(...subjectRule(pattern, 'deny'));
+  }
+
+  if (config.allowlist && config.allowlist.length > 0) {
+    for (const pattern of config.allowlist) {
+      rules.push(...subjectRule(pattern, 'allow'));
+    }
+    rules.push({ tool: config.name, effect: 'deny', reason: `${config.name} call is not in the allowlist` });
+  }
+
+  return rules;
+}
+
+function describeRule(rule: ToolPolicyRule): string {
+  const parts = [rule.tool ?? '*'];
+  if (rule.action) parts.push(`action=${rule.action}`);
+  if (rule.command) parts.push(`command="${rule.command}"`);
+  for (const [key, pattern] of Object.entries(rule.args ?? {})) {
+    parts.push(`${key}=${pattern}`);
+  }
+  return `${rule.effect} ${parts.join(' ')}`;
+}
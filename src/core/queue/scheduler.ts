@@ -0,0 +1,124 @@
+/**
+ * Run Scheduler - 运行调度器
+ *
+ * 参考 OpenClaw 的队列机制：
+ * - 同一会话的运行串行执行（按提交顺序）
+ * - 全局同时运行数不超过 maxConcurrent
+ * - 排队中的任务可通过 AbortSignal 移出队列
+ */
+
+interface QueueEntry {
+  sessionId: string;
+  start: () => void;
+}
+
+export interface SchedulerStats {
+  running: number;
+  queued: number;
+  maxConcurrent: number;
+}
+
+export class RunScheduler {
+  private maxConcurrent: number;
+  private queue: QueueEntry[] = [];
+  private running = 0;
+  private busySessions: Set<string> = new Set();
+
+  constructor(maxConcurrent: number = 4) {
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+  }
+
+  /**
+   * 提交任务，按会话串行、全局限流执行
+   *
+   * @param onStart 任务真正开始执行时调用（之前处于排队状态）
+   */
+  schedule<T>(
+    sessionId: string,
+    task: () => Promise<T>,
+    options: { signal?: AbortSignal; onStart?: () => void } = {}
+  ): Promise<T> {
+    const { signal, onStart } = options;
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        // 仍在排队时移出队列；已开始的任务由任务自身响应取消
+        const index = this.queue.indexOf(entry);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(signal!.reason);
+        }
+      };
+
+      const entry: QueueEntry = {
+        sessionId,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          onStart?.();
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              this.busySessions.delete(sessionId);
+              this.drain();
+            });
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(entry);
+      this.drain();
+    });
+  }
+
+  /**
+   * 会话是否有正在执行的任务
+   */
+  isBusy(sessionId: string): boolean {
+    return this.busySessions.has(sessionId);
+  }
+
+  /**
+   * 该会话新提交的任务能否立即开始
+   */
+  canStart(sessionId: string): boolean {
+    return !this.busySessions.has(sessionId) && this.running < this.maxConcurrent;
+  }
+
+  /**
+   * 调度统计
+   */
+  get stats(): SchedulerStats {
+    return {
+      running: this.running,
+      queued: this.queue.length,
+      maxConcurrent: this.maxConcurrent,
+    };
+  }
+
+  /**
+   * 按提交顺序启动可执行的任务（跳过会话正忙的任务）
+   */
+  private drain(): void {
+    let index = 0;
+
+    while (index < this.queue.length && this.running < this.maxConcurrent) {
+      const entry = this.queue[index];
+      if (this.busySessions.has(entry.sessionId)) {
+        index++;
+        continue;
+      }
+
+      this.queue.splice(index, 1);
+      this.running++;
+      this.busySessions.add(entry.sessionId);
+      entry.start();
+    }
+  }
+}
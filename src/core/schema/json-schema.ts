@@ -0,0 +1,351 @@
+/**
+ * JSON Schema - zod 到 JSON Schema 的转换与轻量校验
+ *
+ * - zodToJsonSchema: 将 zod schema 转换为提供商可用的 JSON Schema
+ * - validateJsonSchema: 按 JSON Schema 子集校验数据（用于直接传入 JSON Schema 的场景）
+ */
+
+import {
+  ZodFirstPartyTypeKind,
+  ZodType,
+  type ZodError,
+  type ZodNumberCheck,
+  type ZodStringCheck,
+  type ZodTypeAny,
+} from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * 校验问题，path 为点号路径（数组下标写作 [i]），根节点为空字符串
+ */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * 是否为 zod schema
+ */
+export function isZodSchema(value: unknown): value is ZodTypeAny {
+  // 兼容依赖树中存在多份 zod 的情况
+  return (
+    value instanceof ZodType ||
+    (typeof value === 'object' &&
+      value !== null &&
+      '_def' in value &&
+      typeof (value as { safeParse?: unknown }).safeParse === 'function')
+  );
+}
+
+/**
+ * 将 zod schema 转换为 JSON Schema
+ *
+ * 覆盖常用类型；无法表达的类型（函数、Promise 等）转换为不限制的空 schema
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const result = convert(schema);
+  if (schema.description && result.description === undefined) {
+    result.description = schema.description;
+  }
+  return result;
+}
+
+function convert(schema: ZodTypeAny): JsonSchema {
+  // zod v3 的 _def 按类型不同，各字段在读取处收窄
+  const def = schema._def as Record<string, unknown>;
+  const child = (key: string) => zodToJsonSchema(def[key] as ZodTypeAny);
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: 'string' };
+      for (const check of (def.checks as ZodStringCheck[] | undefined) ?? []) {
+        if (check.kind === 'min') result.minLength = check.value;
+        else if (check.kind === 'max') result.maxLength = check.value;
+        else if (check.kind === 'length') result.minLength = result.maxLength = check.value;
+        else if (check.kind === 'regex') result.pattern = check.regex.source;
+        else if (check.kind === 'email' || check.kind === 'uuid' || check.kind === 'url') {
+          result.format = check.kind === 'url' ? 'uri' : check.kind;
+        } else if (check.kind === 'datetime') result.format = 'date-time';
+      }
+      return result;
+    }
+
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: 'number' };
+      for (const check of (def.checks as ZodNumberCheck[] | undefined) ?? []) {
+        if (check.kind === 'int') result.type = 'integer';
+        else if (check.kind === 'min') {
+          result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        } else if (check.kind === 'max') {
+          result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        }
+      }
+      return result;
+    }
+
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer' };
+
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...(def.values as string[])] };
+
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // 数字枚举会包含反向映射，只保留真实取值
+      const values = Object.entries(def.values as Record<string, string | number>)
+        .filter(([key]) => Number.isNaN(Number(key)))
+        .map(([, value]) => value);
+      return { enum: values };
+    }
+
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const length = (key: string) => (def[key] as { value: number } | null | undefined)?.value;
+      const result: JsonSchema = { type: 'array', items: child('type') };
+      if (length('minLength') !== undefined) result.minItems = length('minLength');
+      if (length('maxLength') !== undefined) result.maxItems = length('maxLength');
+      if (length('exactLength') !== undefined) result.minItems = result.maxItems = length('exactLength');
+      return result;
+    }
+
+    case ZodFirstPartyTypeKind.ZodTuple: {
+      const items = def.items as ZodTypeAny[];
+      return {
+        type: 'array',
+        prefixItems: items.map(zodToJsonSchema),
+        minItems: items.length,
+        ...(def.rest ? { items: child('rest') } : { maxItems: items.length }),
+      };
+    }
+
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (def.shape as () => Record<string, ZodTypeAny>)();
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+
+      const result: JsonSchema = { type: 'object', properties };
+      if (required.length > 0) result.required = required;
+
+      const catchall = def.catchall as ZodTypeAny | undefined;
+      if (catchall && catchall._def.typeName !== ZodFirstPartyTypeKind.ZodNever) {
+        result.additionalProperties = zodToJsonSchema(catchall);
+      } else if (def.unknownKeys === 'strict') {
+        result.additionalProperties = false;
+      }
+      return result;
+    }
+
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: child('valueType') };
+
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+      const options = def.options as ZodTypeAny[] | Map<unknown, ZodTypeAny>;
+      return { anyOf: (Array.isArray(options) ? options : [...options.values()]).map(zodToJsonSchema) };
+    }
+
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [child('left'), child('right')] };
+
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return child('innerType');
+
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [child('innerType'), { type: 'null' }] };
+
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...child('innerType'), default: (def.defaultValue as () => unknown)() };
+
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return child('innerType');
+
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return child('schema');
+
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return child('type');
+
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return child('in');
+
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return zodToJsonSchema((def.getter as () => ZodTypeAny)());
+
+    default:
+      return {};
+  }
+}
+
+/**
+ * 将 zod 校验错误转换为校验问题列表
+ */
+export function zodIssues(error: ZodError): SchemaIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.reduce<string>(
+      (path, key) => (typeof key === 'number' ? `${path}[${key}]` : path ? childPath(path, key) : key),
+      ''
+    ),
+    message: issue.message,
+  }));
+}
+
+/**
+ * 格式化校验问题
+ */
+export function formatIssue(issue: SchemaIssue): string {
+  return `${issue.path || '(root)'}: ${issue.message}`;
+}
+
+/**
+ * 按 JSON Schema 校验数据，返回问题列表（空数组表示通过）
+ *
+ * 支持 type、enum、const、properties、required、additionalProperties、items、
+ * anyOf / oneOf / allOf 以及常用的长度、范围和 pattern 约束
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = ''): SchemaIssue[] {
+  const errors: SchemaIssue[] = [];
+  const issue = (message: string, at: string = path) => errors.push({ path: at, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [{ path, message: `Expected ${types.join(' | ')}, received ${describeType(value)}` }];
+    }
+  }
+
+  if (schema.enum && !(schema.enum as unknown[]).some((item) => deepEqual(item, value))) {
+    issue(`Must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    issue(`Must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  for (const key of ['anyOf', 'oneOf'] as const) {
+    const options = schema[key] as JsonSchema[] | undefined;
+    if (options && !options.some((option) => validateJsonSchema(value, option, path).length === 0)) {
+      issue('Does not match any allowed schema');
+    }
+  }
+  for (const option of (schema.allOf as JsonSchema[] | undefined) ?? []) {
+    errors.push(...validateJsonSchema(value, option, path));
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      issue(`Must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      issue(`Must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      issue(`Must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issue(`Must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issue(`Must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      issue(`Must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      issue(`Must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issue(`Must contain at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issue(`Must contain at most ${schema.maxItems} items`);
+    }
+    const prefixItems = (schema.prefixItems as JsonSchema[] | undefined) ?? [];
+    value.forEach((item, index) => {
+      const itemSchema = prefixItems[index] ?? (schema.items as JsonSchema | undefined);
+      if (itemSchema && typeof itemSchema === 'object') {
+        errors.push(...validateJsonSchema(item, itemSchema, `${path}[${index}]`));
+      }
+    });
+  }
+
+  if (isPlainObject(value)) {
+    const properties = (schema.properties as Record<string, JsonSchema> | undefined) ?? {};
+
+    for (const key of (schema.required as string[] | undefined) ?? []) {
+      if (value[key] === undefined) {
+        issue('Required', childPath(path, key));
+      }
+    }
+
+    for (const [key, item] of Object.entries(value)) {
+      if (properties[key]) {
+        if (item !== undefined) {
+          errors.push(...validateJsonSchema(item, properties[key], childPath(path, key)));
+        }
+      } else if (schema.additionalProperties === false) {
+        issue('Unrecognized key', childPath(path, key));
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(item, schema.additionalProperties, childPath(path, key)));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,206 @@
+/**
+ * Session Compaction - 会话压缩
+ *
+ * 会话超过阈值时，由模型将较早的历史总结为一条摘要消息：
+ * - 摘要消息（kind: 'summary'）放在会话开头并随会话持久化
+ * - 被压缩的原始消息追加到 sessions/<id>.history.jsonl，不会丢失
+ * - 最近的消息原样保留，工具调用与结果不会被拆开
+ */
+
+import type { CompactionConfig, Message, Session } from '../../types/index.js';
+import type { GenerateOptions, GenerateResult } from '../models/adapter.js';
+import { countMessageTokens, groupMessages, truncateText } from '../context/window.js';
+import type { SessionManager } from './manager.js';
+
+export interface CompactionResult {
+  sessionId: string;
+  /** 被归档的消息数 */
+  archivedMessages: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  summary: string;
+  /** 生成摘要的模型用量 */
+  usage?: GenerateResult['usage'];
+}
+
+export interface SessionCompactorOptions {
+  sessionManager: SessionManager;
+  generate: (options: GenerateOptions) => Promise<GenerateResult>;
+  countTokens: (text: string) => number;
+  /** 模型上下文窗口，用于计算默认阈值 */
+  getContextWindow: () => number;
+  config?: CompactionConfig;
+}
+
+const SUMMARY_PROMPT = `You are compacting the history of a conversation between a user and an AI agent that uses tools.
+Write a concise summary that preserves everything needed to continue the work:
+- the user's goals, requirements and preferences
+- decisions made and their reasons
+- files, commands, URLs and other concrete facts discovered through tools
+- work completed so far and what remains to be done
+If a previous summary is included, merge it into the new summary. Reply with the summary only.`;
+
+export class SessionCompactor {
+  private options: SessionCompactorOptions;
+
+  constructor(options: SessionCompactorOptions) {
+    this.options = options;
+  }
+
+  /**
+   * 会话 token 数
+   */
+  countSessionTokens(session: Session): number {
+    return session.messages.reduce(
+      (sum, msg) => sum + countMessageTokens(msg, this.options.countTokens),
+      0
+    );
+  }
+
+  /**
+   * 是否需要压缩
+   */
+  shouldCompact(session: Session): boolean {
+    if (this.options.config?.enabled === false) return false;
+    return this.countSessionTokens(session) > this.thresholdTokens;
+  }
+
+  /**
+   * 压缩会话（会修改并保存 session），无可压缩内容时返回 null
+   */
+  async compact(session: Session, signal?: AbortSignal): Promise<CompactionResult | null> {
+    const tokensBefore = this.countSessionTokens(session);
+    const { older, recent } = this.split(session.messages);
+
+    // 只有旧摘要或没有旧消息时无需压缩
+    if (older.every((msg) => msg.kind === 'summary')) {
+      return null;
+    }
+
+    const response = await this.options.generate({
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT },
+        {
+          role: 'user',
+          // 待总结的内容本身也不能超出上下文窗口
+          content: truncateText(
+            renderTranscript(older),
+            Math.floor(this.options.getContextWindow() * 0.7),
+            this.options.countTokens
+          ),
+        },
+      ],
+      temperature: 0,
+      signal,
+    });
+
+    const summary = response.text.trim();
+    if (!summary) {
+      throw new Error('Compaction failed: model returned an empty summary');
+    }
+
+    // 先归档原始消息，再替换内存中的历史
+    await this.options.sessionManager.archive(
+      session.id,
+      older.filter((msg) => msg.kind !== 'summary')
+    );
+
+    const summaryMessage: Message = {
+      role: 'system',
+      kind: 'summary',
+      content: `Summary of earlier conversation:\n\n${summary}`,
+      timestamp: Date.now(),
+    };
+
+    const archivedMessages = older.length;
+    session.messages = [summaryMessage, ...recent];
+    session.metadata = {
+      ...session.metadata,
+      compactions: ((session.metadata?.compactions as number | undefined) ?? 0) + 1,
+      lastCompactedAt: summaryMessage.timestamp,
+    };
+    await this.options.sessionManager.save(session);
+
+    return {
+      sessionId: session.id,
+      archivedMessages,
+      tokensBefore,
+      tokensAfter: this.countSessionTokens(session),
+      summary,
+      usage: response.usage,
+    };
+  }
+
+  /**
+   * 触发阈值
+   */
+  private get thresholdTokens(): number {
+    return this.options.config?.thresholdTokens ?? Math.floor(this.options.getContextWindow() * 0.6);
+  }
+
+  /**
+   * 拆分为待压缩的旧消息和保留的最近消息
+   */
+  private split(messages: Message[]): { older: Message[]; recent: Message[] } {
+    const keepTokens =
+      this.options.config?.keepRecentTokens ?? Math.floor(this.options.getContextWindow() * 0.2);
+    const groups = groupMessages(messages);
+
+    let used = 0;
+    let splitIndex = groups.length;
+
+    for (let i = groups.length - 1; i >= 0; i--) {
+      const cost = groups[i].reduce(
+        (sum, msg) => sum + countMessageTokens(msg, this.options.countTokens),
+        0
+      );
+      if (used + cost > keepTokens) break;
+      used += cost;
+      splitIndex = i;
+    }
+
+    // 至少压缩一组、保留最近一组
+    splitIndex = Math.min(Math.max(splitIndex, 1), Math.max(groups.length - 1, 0));
+    if (splitIndex >= groups.length) {
+      return { older: messages, recent: [] };
+    }
+
+    // 按原始数组切分，孤立的工具结果也随旧消息一起归档
+    const boundary = messages.indexOf(groups[splitIndex][0]);
+    return {
+      older: messages.slice(0, boundary),
+      recent: messages.slice(boundary),
+    };
+  }
+}
+
+/**
+ * 将消息渲染为文本记录，供模型总结
+ */
+function renderTranscript(messages: Message[]): string {
+  const lines: string[] = [];
+
+  for (const msg of messages) {
+    if (msg.kind === 'summary') {
+      lines.push(`[previous summary]\n${msg.content}`);
+      continue;
+    }
+
+    if (msg.role === 'tool' && msg.toolResults) {
+      for (const result of msg.toolResults) {
+        const output = result.error ? `error: ${result.error}` : JSON.stringify(result.result);
+        lines.push(`[tool result: ${result.name}]\n${output}`);
+      }
+      continue;
+    }
+
+    if (msg.content) {
+      lines.push(`[${msg.role}]\n${msg.content}`);
+    }
+    for (const call of msg.toolCalls ?? []) {
+      lines.push(`[tool call: ${call.name}]\n${JSON.stringify(call.arguments)}`);
+    }
+  }
+
+  return lines.join('\n\n');
+}
@@ -89,6 +89,43 @@ export class SessionManager {
     return join(this.sessionsDir, `${sessionId}.json`);
   }
 
+  /**
+   * 归档消息（追加到 <id>.history.jsonl，压缩后原始历史仍可查阅）
+   */
+  async archive(sessionId: string, messages: Message[]): Promise<void> {
+    if (messages.length === 0) return;
+
+    const lines = messages.map((msg) => JSON.stringify(msg)).join('\n') + '\n';
+    await fs.appendFile(this.getHistoryPath(sessionId), lines, 'utf-8');
+  }
+
+  /**
+   * 加载完整历史（已归档消息 + 当前消息，不含压缩摘要）
+   */
+  async loadHistory(sessionId: string): Promise<Message[]> {
+    const archived: Message[] = [];
+    const historyPath = this.getHistoryPath(sessionId);
+
+    if (existsSync(historyPath)) {
+      const content = await fs.readFile(historyPath, 'utf-8');
+      for (const line of content.split('\n')) {
+        if (line.trim()) {
+          archived.push(JSON.parse(line) as Message);
+        }
+      }
+    }
+
+    const session = await this.getOrCreate(sessionId);
+    return [...archived, ...session.messages.filter((msg) => msg.kind !== 'summary')];
+  }
+
+  /**
+   * 获取归档历史路径
+   */
+  private getHistoryPath(sessionId: string): string {
+    return join(this.sessionsDir, `${sessionId}.history.jsonl`);
+  }
+
   /**
    * 删除会话
    */
@@ -98,6 +135,10 @@ export class SessionManager {
     if (existsSync(sessionPath)) {
       await fs.unlink(sessionPath);
     }
+    const historyPath = this.getHistoryPath(sessionId);
+    if (existsSync(historyPath)) {
+      await fs.unlink(historyPath);
+    }
   }
 
   /**
@@ -4,30 +4,126 @@
  * 所有工具的基础接口
  */
 
+import { formatIssue, validateJsonSchema, type JsonSchema, type SchemaIssue } from '../schema/json-schema.js';
+
+/**
+ * 工具执行上下文
+ */
+export interface ToolExecutionContext {
+  /** 所属运行 */
+  runId?: string;
+  /** 所属会话 */
+  sessionId?: string;
+  /** 取消信号（运行被取消时触发） */
+  signal?: AbortSignal;
+  /** 报告执行进度（如命令的实时输出），以 tool progress 事件发给客户端 */
+  onProgress?: (progress: Record<string, unknown>) => void;
+}
+
+/**
+ * 工具资源的释放范围
+ */
+export interface ToolReleaseScope {
+  /** 运行结束 */
+  runId?: string;
+  /** 会话结束 */
+  sessionId?: string;
+}
+
+/**
+ * 工具参数校验失败
+ *
+ * Agent 会把 issues 作为工具错误返回给模型，便于模型修正参数后重试
+ */
+export class ToolArgumentsError extends Error {
+  readonly toolName: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(toolName: string, issues: SchemaIssue[]) {
+    super(
+      `Invalid arguments for tool ${toolName}:\n${issues.map((issue) => `- ${formatIssue(issue)}`).join('\n')}`
+    );
+    this.name = 'ToolArgumentsError';
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
 export interface AgentTool {
   name: string;
   description: string;
+  /** 参数的 JSON Schema（根类型为 object） */
   parameters: Record<string, unknown>;
+  /**
+   * 能否与同一轮的其他调用并行执行（只读、无共享状态的调用），默认 false
+   *
+   * 可按参数判断，例如文件系统的读操作可并行而写操作不可
+   */
+  concurrencySafe?: boolean | ((args: Record<string, unknown>) => boolean);
   
-  execute(callId: string, args: Record<string, unknown>): Promise<unknown>;
+  execute(callId: string, args: Record<string, unknown>, context?: ToolExecutionContext): Promise<unknown>;
+
+  /**
+   * 释放运行或会话持有的资源（如后台进程），范围为空时释放全部
+   */
+  release?(scope: ToolReleaseScope): Promise<void> | void;
 }
 
 export abstract class BaseTool implements AgentTool {
   abstract name: string;
   abstract description: string;
   abstract parameters: Record<string, unknown>;
+  concurrencySafe?: boolean | ((args: Record<string, unknown>) => boolean);
 
-  abstract execute(callId: string, args: Record<string, unknown>): Promise<unknown>;
+  abstract execute(
+    callId: string,
+    args: Record<string, unknown>,
+    context?: ToolExecutionContext
+  ): Promise<unknown>;
 
   /**
-   * 验证参数
+   * 按 parameters 校验参数，返回类型转换后的参数
+   *
+   * 只有 required 中的参数是必填的；数字和布尔值以字符串传入时按 schema 转换
    */
-  protected validateArgs(args: Record<string, unknown>): void {
-    // 基础验证逻辑
-    for (const [key, schema] of Object.entries(this.parameters)) {
-      if (!(key in args)) {
-        throw new Error(`Missing required parameter: ${key}`);
-      }
+  protected validateArgs(args: Record<string, unknown>): Record<string, unknown> {
+    const schema = toToolParameters(this.parameters);
+    const coerced = coerceArgs(args, schema);
+    const issues = validateJsonSchema(coerced, schema);
+    if (issues.length > 0) {
+      throw new ToolArgumentsError(this.name, issues);
+    }
+    return coerced;
+  }
+}
+
+/**
+ * 规范化工具参数为 JSON Schema
+ *
+ * 兼容旧式的「参数名 → 参数 schema」映射：包装为 object schema，所有参数均为可选
+ */
+export function toToolParameters(parameters: Record<string, unknown>): JsonSchema {
+  if (parameters.type === 'object') return parameters;
+  return { type: 'object', properties: parameters };
+}
+
+/**
+ * 按 schema 转换顶层参数中以字符串传入的数字和布尔值
+ */
+function coerceArgs(args: Record<string, unknown>, schema: JsonSchema): Record<string, unknown> {
+  const properties = (schema.properties as Record<string, JsonSchema> | undefined) ?? {};
+  const result: Record<string, unknown> = { ...args };
+
+  for (const [key, value] of Object.entries(args)) {
+    const type = properties[key]?.type;
+    if (typeof value !== 'string') continue;
+
+    if ((type === 'number' || type === 'integer') && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      result[key] = Number(value);
+    } else if (type === 'boolean' && (value === 'true' || value === 'false')) {
+      result[key] = value === 'true';
     }
   }
+
+  return result;
 }
@@ -0,0 +1,309 @@
+import { describe, expect, it } from 'vitest';
+import {
+  paginateLines,
+  REF_ATTRIBUTE,
+  renderSnapshot,
+  SNAPSHOT_SCRIPT,
+  type PageSnapshot,
+  type SnapshotNode,
+} from './browser-snapshot.js';
+
+/**
+ * 最小的 DOM 模拟：只实现快照脚本读取的属性和方法
+ */
+class FakeText {
+  readonly nodeType = 3;
+  constructor(readonly textContent: string) {}
+}
+
+class FakeElement {
+  readonly nodeType = 1;
+  readonly tagName: string;
+  readonly childNodes: Array<FakeElement | FakeText>;
+  parentElement: FakeElement | null = null;
+  shadowRoot: { childNodes: Array<FakeElement | FakeText> } | null = null;
+  private attributes: Map<string, string>;
+
+  constructor(
+    tag: string,
+    attributes: Record<string, string>,
+    children: Array<FakeElement | FakeText>,
+    private document: FakeDocument
+  ) {
+    this.tagName = tag.toUpperCase();
+    this.attributes = new Map(Object.entries(attributes));
+    this.childNodes = children;
+    for (const child of children) if (child instanceof FakeElement) child.parentElement = this;
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.get(name) ?? null;
+  }
+  hasAttribute(name: string): boolean {
+    return this.attributes.has(name);
+  }
+  setAttribute(name: string, value: string): void {
+    this.attributes.set(name, value);
+  }
+
+  get textContent(): string {
+    return this.childNodes.map((child) => child.textContent).join('');
+  }
+  get hidden(): boolean {
+    return this.hasAttribute('hidden');
+  }
+  get type(): string {
+    return this.getAttribute('type') ?? (this.tagName === 'INPUT' ? 'text' : '');
+  }
+  get value(): string {
+    return this.getAttribute('value') ?? '';
+  }
+  get checked(): boolean {
+    return this.hasAttribute('checked');
+  }
+  get selected(): boolean {
+    return this.hasAttribute('selected');
+  }
+  get disabled(): boolean {
+    return this.hasAttribute('disabled');
+  }
+  get tabIndex(): number {
+    const value = this.getAttribute('tabindex');
+    if (value !== null) return Number(value);
+    return ['A', 'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA'].includes(this.tagName) ? 0 : -1;
+  }
+  get isContentEditable(): boolean {
+    return this.getAttribute('contenteditable') === 'true' || !!this.parentElement?.isContentEditable;
+  }
+  get labels(): FakeElement[] | undefined {
+    if (this.tagName !== 'INPUT') return undefined;
+    const id = this.getAttribute('id');
+    return this.document.all().filter((el) => el.tagName === 'LABEL' && id !== null && el.getAttribute('for') === id);
+  }
+}
+
+class FakeDocument {
+  title = 'Test page';
+  body: FakeElement;
+
+  constructor(build: (h: typeof this.h) => Array<FakeElement | FakeText>) {
+    this.body = this.h('body', {}, ...build(this.h));
+  }
+
+  readonly h = (
+    tag: string,
+    attributes: Record<string, string> = {},
+    ...children: Array<FakeElement | FakeText | string>
+  ) =>
+    new FakeElement(
+      tag,
+      attributes,
+      children.map((child) => (typeof child === 'string' ? new FakeText(child) : child)),
+      this
+    );
+
+  all(from: FakeElement = this.body): FakeElement[] {
+    const children = from.childNodes.filter((child): child is FakeElement => child instanceof FakeElement);
+    return [from, ...children.flatMap((child) => this.all(child))];
+  }
+
+  getElementById(id: string): FakeElement | null {
+    return this.all().find((el) => el.getAttribute('id') === id) ?? null;
+  }
+
+  /** 只支持 #id 选择器 */
+  querySelector(selector: string): FakeElement | null {
+    return this.getElementById(selector.replace(/^#/, ''));
+  }
+}
+
+type Build = (h: FakeDocument['h']) => Array<FakeElement | FakeText>;
+
+/** 创建页面，返回在其中执行快照脚本的函数（同一页面的多次快照共用 window） */
+function page(build: Build) {
+  const document = new FakeDocument(build);
+  const window: Record<string, unknown> = {};
+  const getComputedStyle = (el: FakeElement) => {
+    const style = el.getAttribute('style') ?? '';
+    return {
+      display: /display:\s*none/.test(style) ? 'none' : 'block',
+      visibility: /visibility:\s*hidden/.test(style) ? 'hidden' : 'visible',
+    };
+  };
+  const script = new Function(
+    'window',
+    'document',
+    'location',
+    'getComputedStyle',
+    'Node',
+    `return (${SNAPSHOT_SCRIPT});`
+  )(window, document, { href: 'https://example.com/' }, getComputedStyle, { TEXT_NODE: 3, ELEMENT_NODE: 1 });
+
+  return {
+    document,
+    snapshot: (root?: string) => script({ refAttribute: REF_ATTRIBUTE, root }) as PageSnapshot,
+  };
+}
+
+const snapshotOf = (build: Build) => page(build).snapshot().nodes;
+
+describe('SNAPSHOT_SCRIPT', () => {
+  it('derives roles from tags and explicit role attributes', () => {
+    const nodes = snapshotOf((h) => [
+      h('nav', {}, h('a', { href: '/home' }, 'Home'), h('a', {}, 'No href')),
+      h(
+        'main',
+        {},
+        h('h2', {}, 'Title'),
+        h('div', { role: 'tab' }, 'Tab 1'),
+        h('div', { role: 'presentation' }, 'Plain')
+      ),
+      h('section', {}, h('button', {}, 'Unlabelled region')),
+      h('section', { 'aria-label': 'Filters' }),
+      h('input', { type: 'checkbox', checked: '' }),
+      h('input', { type: 'search' }),
+      h('select', {}),
+      h('div', { onclick: 'go()' }, 'Clickable'),
+    ]);
+
+    expect(nodes).toMatchObject([
+      { role: 'navigation', children: [{ role: 'link', name: 'Home' }, { role: 'text', name: 'No href' }] },
+      {
+        role: 'main',
+        children: [
+          { role: 'heading', name: 'Title', level: 2 },
+          { role: 'tab', name: 'Tab 1' },
+          { role: 'text', name: 'Plain' },
+        ],
+      },
+      { role: 'button', name: 'Unlabelled region' },
+      { role: 'region', name: 'Filters' },
+      { role: 'checkbox', checked: true },
+      { role: 'searchbox' },
+      { role: 'combobox' },
+      { role: 'generic', name: 'Clickable' },
+    ]);
+  });
+
+  it('computes accessible names in priority order', () => {
+    const nodes = snapshotOf((h) => [
+      h('span', { id: 'caption' }, 'From labelledby'),
+      h('button', { 'aria-labelledby': 'caption', 'aria-label': 'From label' }, 'Content'),
+      h('button', { 'aria-label': 'From label' }, 'Content'),
+      h('label', { for: 'email' }, 'Email'),
+      h('input', { id: 'email', placeholder: 'you@example.com' }),
+      h('input', { placeholder: 'Search…' }),
+      h('img', { alt: 'Logo' }),
+      h('img', { alt: '' }),
+      h('input', { type: 'submit', value: 'Send' }),
+    ]);
+
+    expect(nodes.filter((node) => node.role !== 'text')).toMatchObject([
+      { role: 'button', name: 'From labelledby' },
+      { role: 'button', name: 'From label' },
+      { role: 'textbox', name: 'Email' },
+      { role: 'textbox', name: 'Search…' },
+      { role: 'img', name: 'Logo' },
+      { role: 'button', name: 'Send' },
+    ]);
+    // 名称取自内容的节点不再重复输出文本
+    expect(nodes[1].children).toBeUndefined();
+  });
+
+  it('reports values and states but not passwords', () => {
+    const nodes = snapshotOf((h) => [
+      h('input', { value: 'hello' }),
+      h('input', { type: 'password', value: 'secret' }),
+      h('button', { disabled: '', 'aria-expanded': 'false' }, 'Menu'),
+      h('div', { role: 'checkbox', 'aria-checked': 'mixed' }, 'All'),
+    ]);
+
+    expect(nodes).toMatchObject([
+      { role: 'textbox', value: 'hello' },
+      { role: 'textbox' },
+      { role: 'button', disabled: true, expanded: false },
+      { role: 'checkbox', checked: 'mixed' },
+    ]);
+    expect(nodes[1].value).toBeUndefined();
+  });
+
+  it('skips hidden elements and non-content tags', () => {
+    const nodes = snapshotOf((h) => [
+      h('button', { hidden: '' }, 'Hidden attribute'),
+      h('button', { 'aria-hidden': 'true' }, 'ARIA hidden'),
+      h('button', { style: 'display: none' }, 'Not displayed'),
+      h('div', { style: 'visibility: hidden' }, h('button', {}, 'Invisible child')),
+      h('input', { type: 'hidden', value: 'token' }),
+      h('script', {}, 'alert(1)'),
+      h('button', {}, 'Visible'),
+    ]);
+
+    expect(nodes).toEqual([{ role: 'button', name: 'Visible', ref: expect.any(String) }]);
+  });
+
+  it('keeps refs stable across snapshots and reassigns duplicated refs', () => {
+    const { document, snapshot } = page((h) => [h('button', {}, 'One'), h('button', {}, 'Two')]);
+
+    const first = snapshot();
+    expect(first.refs).toBe(2);
+    expect(first.nodes.map((node) => node.ref)).toEqual(['e1', 'e2']);
+    expect(snapshot().nodes.map((node) => node.ref)).toEqual(['e1', 'e2']);
+
+    // 复制的节点带有相同的引用属性
+    const copy = document.h('button', { [REF_ATTRIBUTE]: 'e1' }, 'Copy');
+    document.body.childNodes.push(copy);
+    expect(snapshot().nodes.map((node) => node.ref)).toEqual(['e1', 'e2', 'e3']);
+    expect(copy.getAttribute(REF_ATTRIBUTE)).toBe('e3');
+  });
+
+  it('snapshots a subtree and rejects unknown roots', () => {
+    const { snapshot } = page((h) => [
+      h('button', {}, 'Outside'),
+      h('form', { id: 'login' }, h('button', {}, 'Inside')),
+    ]);
+
+    expect(snapshot('#login').nodes).toMatchObject([{ role: 'button', name: 'Inside' }]);
+    expect(() => snapshot('#missing')).toThrow(/Snapshot root not found/);
+  });
+});
+
+describe('renderSnapshot', () => {
+  it('renders nodes as an indented list with states', () => {
+    const nodes: SnapshotNode[] = [
+      { role: 'heading', name: 'Title', level: 1 },
+      {
+        role: 'form',
+        children: [
+          { role: 'textbox', name: 'Email', ref: 'e1', value: 'a@b.c' },
+          { role: 'checkbox', name: 'Remember', ref: 'e2', checked: false },
+          { role: 'checkbox', name: 'All', ref: 'e3', checked: 'mixed' },
+          { role: 'button', name: 'Send', ref: 'e4', disabled: true, expanded: true, selected: true },
+        ],
+      },
+      { role: 'paragraph', children: [{ role: 'text', name: 'Inline text' }] },
+      { role: 'text', name: 'Loose text' },
+    ];
+
+    expect(renderSnapshot(nodes)).toEqual([
+      '- heading "Title" [level=1]',
+      '- form:',
+      '  - textbox "Email" [ref=e1] value="a@b.c"',
+      '  - checkbox "Remember" [ref=e2]',
+      '  - checkbox "All" [ref=e3] [checked=mixed]',
+      '  - button "Send" [ref=e4] [disabled] [expanded] [selected]',
+      '- paragraph: Inline text',
+      '- text: Loose text',
+    ]);
+  });
+});
+
+describe('paginateLines', () => {
+  it('fills pages without splitting lines', () => {
+    expect(paginateLines(['aaaa', 'bbbb', 'cccc'], 10)).toEqual(['aaaa\nbbbb', 'cccc']);
+    expect(paginateLines(['aaaa', 'x'.repeat(20), 'bb'], 10)).toEqual(['aaaa', 'x'.repeat(20), 'bb']);
+  });
+
+  it('returns a single empty page for no lines', () => {
+    expect(paginateLines([], 10)).toEqual(['']);
+  });
+});
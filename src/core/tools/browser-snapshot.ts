@@ -0,0 +1,258 @@
+/**
+ * Browser Snapshot - 面向模型的页面快照
+ *
+ * - 在页面中按可访问性语义（role、可访问名称、状态）遍历 DOM，跳过隐藏元素，无语义的容器展开为其子节点
+ * - 可交互元素带短引用（如 e12），记录在元素的 data-agent-ref 属性上：同一元素在多次快照中引用不变，
+ *   click / type 等动作以 ref 代替 CSS 选择器
+ * - 渲染为缩进列表文本，按字符数分页
+ */
+
+export const REF_ATTRIBUTE = 'data-agent-ref';
+
+export interface SnapshotNode {
+  role: string;
+  name?: string;
+  ref?: string;
+  /** 输入框等的当前值 */
+  value?: string;
+  /** 标题级别 */
+  level?: number;
+  checked?: boolean | 'mixed';
+  disabled?: boolean;
+  expanded?: boolean;
+  selected?: boolean;
+  children?: SnapshotNode[];
+}
+
+export interface PageSnapshot {
+  title: string;
+  url: string;
+  nodes: SnapshotNode[];
+  /** 可交互元素数 */
+  refs: number;
+}
+
+/**
+ * 在页面中执行的快照脚本：接收 { refAttribute, root? }，返回 PageSnapshot
+ *
+ * 以字符串形式传给 page.evaluate，避免编译器注入的辅助函数在页面中不存在
+ */
+export const SNAPSHOT_SCRIPT = `(options) => {
+  const INTERACTIVE = new Set([
+    'link', 'button', 'checkbox', 'radio', 'textbox', 'searchbox', 'combobox', 'listbox', 'option',
+    'slider', 'spinbutton', 'switch', 'tab', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'treeitem',
+  ]);
+  // 名称取自内容的角色，其文本不再单独输出
+  const NAME_FROM_CONTENT = new Set([
+    'link', 'button', 'heading', 'option', 'tab', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
+    'treeitem', 'cell', 'columnheader', 'rowheader', 'switch', 'checkbox', 'radio', 'tooltip',
+  ]);
+  const LANDMARKS = {
+    NAV: 'navigation', MAIN: 'main', HEADER: 'banner', FOOTER: 'contentinfo', ASIDE: 'complementary',
+    FORM: 'form', UL: 'list', OL: 'list', LI: 'listitem', TABLE: 'table', TR: 'row', TD: 'cell',
+    TH: 'columnheader', DIALOG: 'dialog', P: 'paragraph', TEXTAREA: 'textbox', OPTION: 'option',
+    SUMMARY: 'button', BLOCKQUOTE: 'blockquote', FIGURE: 'figure', PRE: 'code',
+  };
+  const SKIP = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'HEAD', 'META', 'LINK', 'IFRAME']);
+  const MAX_NAME = 100;
+  const MAX_TEXT = 300;
+
+  let counter = window.__agentRefCounter || 0;
+  let refs = 0;
+
+  const clip = (text, max) => {
+    const normalized = (text || '').replace(/\\s+/g, ' ').trim();
+    return normalized.length > max ? normalized.slice(0, max) + '…' : normalized;
+  };
+
+  const isHidden = (el) => {
+    if (el.hidden || el.getAttribute('aria-hidden') === 'true') return true;
+    if (el.tagName === 'INPUT' && el.type === 'hidden') return true;
+    const style = getComputedStyle(el);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+
+  const roleOf = (el) => {
+    const explicit = (el.getAttribute('role') || '').trim().split(/\\s+/)[0];
+    if (explicit) return explicit === 'presentation' ? 'none' : explicit;
+
+    const tag = el.tagName;
+    if (tag === 'A') return el.hasAttribute('href') ? 'link' : null;
+    if (tag === 'BUTTON') return 'button';
+    if (/^H[1-6]$/.test(tag)) return 'heading';
+    if (tag === 'IMG') return el.getAttribute('alt') === '' ? null : 'img';
+    if (tag === 'SELECT') return el.multiple || el.size > 1 ? 'listbox' : 'combobox';
+    if (tag === 'INPUT') {
+      const type = (el.type || 'text').toLowerCase();
+      if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+      if (type === 'checkbox') return 'checkbox';
+      if (type === 'radio') return 'radio';
+      if (type === 'range') return 'slider';
+      if (type === 'number') return 'spinbutton';
+      if (type === 'search') return 'searchbox';
+      return 'textbox';
+    }
+    if (tag === 'SECTION') return el.hasAttribute('aria-label') || el.hasAttribute('aria-labelledby') ? 'region' : null;
+    if (el.isContentEditable && !(el.parentElement && el.parentElement.isContentEditable)) return 'textbox';
+    if (LANDMARKS[tag]) return LANDMARKS[tag];
+    // 没有语义但可点击或可聚焦的元素
+    if (el.hasAttribute('onclick') || (el.hasAttribute('tabindex') && el.tabIndex >= 0)) return 'generic';
+    return null;
+  };
+
+  const nameOf = (el, role) => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\\s+/).map((id) => {
+        const target = document.getElementById(id);
+        return target ? target.textContent : '';
+      }).join(' ');
+      if (clip(text, MAX_NAME)) return clip(text, MAX_NAME);
+    }
+    const label = el.getAttribute('aria-label');
+    if (label && label.trim()) return clip(label, MAX_NAME);
+
+    if (el.labels && el.labels.length > 0) {
+      return clip(Array.from(el.labels).map((l) => l.textContent).join(' '), MAX_NAME);
+    }
+    if (el.tagName === 'IMG' || (el.tagName === 'INPUT' && el.type === 'image')) {
+      return clip(el.getAttribute('alt') || el.getAttribute('title'), MAX_NAME);
+    }
+    if (el.tagName === 'INPUT' && ['button', 'submit', 'reset'].includes(el.type)) {
+      return clip(el.value || el.type, MAX_NAME);
+    }
+    if (NAME_FROM_CONTENT.has(role) || role === 'generic') {
+      const text = clip(el.innerText || el.textContent, MAX_NAME);
+      if (text) return text;
+    }
+    return clip(el.getAttribute('placeholder') || el.getAttribute('title'), MAX_NAME);
+  };
+
+  // 复制节点会连同属性一起复制，重复的引用重新分配
+  const seen = new Set();
+  const refOf = (el) => {
+    let ref = el.getAttribute(options.refAttribute);
+    if (!ref || seen.has(ref)) {
+      ref = 'e' + ++counter;
+      el.setAttribute(options.refAttribute, ref);
+    }
+    seen.add(ref);
+    refs++;
+    return ref;
+  };
+
+  const describe = (el, role) => {
+    const node = { role };
+    const name = nameOf(el, role);
+    if (name) node.name = name;
+    if (INTERACTIVE.has(role) || role === 'generic') node.ref = refOf(el);
+
+    if (role === 'heading') {
+      const level = el.getAttribute('aria-level') || (/^H([1-6])$/.exec(el.tagName) || [])[1];
+      if (level) node.level = Number(level);
+    }
+    if (['textbox', 'searchbox', 'combobox', 'spinbutton', 'slider'].includes(role)) {
+      const value = el.isContentEditable ? el.innerText : el.value;
+      if (value && el.type !== 'password') node.value = clip(value, MAX_TEXT);
+    }
+    const ariaChecked = el.getAttribute('aria-checked');
+    if (ariaChecked) node.checked = ariaChecked === 'mixed' ? 'mixed' : ariaChecked === 'true';
+    else if (role === 'checkbox' || role === 'radio') node.checked = !!el.checked;
+    if (el.disabled || el.getAttribute('aria-disabled') === 'true') node.disabled = true;
+    const expanded = el.getAttribute('aria-expanded');
+    if (expanded) node.expanded = expanded === 'true';
+    if (el.getAttribute('aria-selected') === 'true' || (el.tagName === 'OPTION' && el.selected)) node.selected = true;
+    return node;
+  };
+
+  const visit = (el, out, inNamedContent) => {
+    for (const child of el.shadowRoot ? [...el.shadowRoot.childNodes, ...el.childNodes] : el.childNodes) {
+      if (child.nodeType === Node.TEXT_NODE) {
+        const text = clip(child.textContent, MAX_TEXT);
+        if (text && !inNamedContent) out.push({ role: 'text', name: text });
+        continue;
+      }
+      if (child.nodeType !== Node.ELEMENT_NODE || SKIP.has(child.tagName.toUpperCase())) continue;
+      if (isHidden(child)) continue;
+
+      const role = roleOf(child);
+      if (!role || role === 'none' || role === 'generic' && !child.hasAttribute('onclick') && child.tabIndex < 0) {
+        visit(child, out, inNamedContent);
+        continue;
+      }
+
+      const node = describe(child, role);
+      const children = [];
+      visit(child, children, inNamedContent || (NAME_FROM_CONTENT.has(role) && !!node.name) || role === 'generic');
+      if (children.length > 0) node.children = children;
+      out.push(node);
+    }
+  };
+
+  const root = options.root ? document.querySelector(options.root) : document.body;
+  if (!root) throw new Error('Snapshot root not found: ' + options.root);
+
+  const nodes = [];
+  visit(root, nodes, false);
+  window.__agentRefCounter = counter;
+  return { title: document.title, url: location.href, nodes, refs };
+}`;
+
+/**
+ * 渲染为缩进列表：`- button "Submit" [ref=e3] [disabled]`
+ */
+export function renderSnapshot(nodes: SnapshotNode[], depth = 0): string[] {
+  const lines: string[] = [];
+  const indent = '  '.repeat(depth);
+
+  for (const node of nodes) {
+    if (node.role === 'text') {
+      lines.push(`${indent}- text: ${node.name}`);
+      continue;
+    }
+
+    let line = `${indent}- ${node.role}`;
+    if (node.name) line += ` ${JSON.stringify(node.name)}`;
+    if (node.ref) line += ` [ref=${node.ref}]`;
+    if (node.level !== undefined) line += ` [level=${node.level}]`;
+    if (node.checked !== undefined) line += node.checked === 'mixed' ? ' [checked=mixed]' : node.checked ? ' [checked]' : '';
+    if (node.disabled) line += ' [disabled]';
+    if (node.expanded !== undefined) line += node.expanded ? ' [expanded]' : ' [collapsed]';
+    if (node.selected) line += ' [selected]';
+    if (node.value !== undefined) line += ` value=${JSON.stringify(node.value)}`;
+
+    const children = node.children ?? [];
+    // 只含一段文本的节点写在同一行
+    if (children.length === 1 && children[0].role === 'text' && !children[0].children) {
+      lines.push(`${line}: ${children[0].name}`);
+    } else if (children.length > 0) {
+      lines.push(`${line}:`, ...renderSnapshot(children, depth + 1));
+    } else {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * 按字符数分页（不拆分行，超长的单行单独成页）
+ */
+export function paginateLines(lines: string[], maxChars: number): string[] {
+  const pages: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+
+  for (const line of lines) {
+    if (current.length > 0 && size + line.length + 1 > maxChars) {
+      pages.push(current.join('\n'));
+      current = [];
+      size = 0;
+    }
+    current.push(line);
+    size += line.length + 1;
+  }
+  if (current.length > 0) pages.push(current.join('\n'));
+
+  return pages.length > 0 ? pages : [''];
+}
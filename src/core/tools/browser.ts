@@ -3,45 +3,132 @@
  * 
  * 集成 OpenClaw 的浏览器控制机制
  * 使用 CDP + Playwright
+ * snapshot 返回按可访问性语义整理的页面结构，可交互元素的 ref 可代替选择器用于 click、type 等动作
+ *
+ * 每个 Agent 会话按 profile 使用独立的浏览器上下文（cookie、localStorage 互不共享），上下文可有多个标签页；
+ * 设置 storageDir 时各会话 profile 的登录状态保存为 Playwright storage state（按会话分目录），重启后恢复
  */
 
-import { BaseTool } from './base.js';
-import type { Browser as PlaywrightBrowser } from 'playwright';
+import { BaseTool, type ToolExecutionContext, type ToolReleaseScope } from './base.js';
+import {
+  paginateLines,
+  REF_ATTRIBUTE,
+  renderSnapshot,
+  SNAPSHOT_SCRIPT,
+  type PageSnapshot,
+} from './browser-snapshot.js';
+import type { BrowserContext, Browser as PlaywrightBrowser, Page } from 'playwright';
+import { promises as fs } from 'fs';
+import { existsSync } from 'fs';
+import { dirname, join } from 'path';
 
 export interface BrowserToolConfig {
+  /** 默认在有图形界面时显示浏览器窗口，没有 DISPLAY 的 Linux 服务器上使用无头模式 */
   headless?: boolean;
   executablePath?: string;
+  /** snapshot 每页的最大字符数，默认 8000 */
+  snapshotPageChars?: number;
+  /**
+   * 保存 storage state（<会话>/<profile>.json）的目录，未设置时不保存；
+   * 其中包含 cookie，应放在工具无法访问的位置（工作区之外）
+   */
+  storageDir?: string;
 }
 
+/** 一个会话的一个 profile 对应的浏览器上下文 */
+interface BrowserSession {
+  sessionId: string;
+  profile: string;
+  context: BrowserContext;
+  tabs: Map<string, Page>;
+  activeTab?: string;
+  nextTab: number;
+}
+
+const DEFAULT_PROFILE = 'default';
+/** 只读取页面、不改变登录状态的动作 */
+const READ_ONLY_ACTIONS = ['screenshot', 'snapshot', 'tab_list'];
+
 export class BrowserTool extends BaseTool {
   name = 'browser';
-  description = 'Control a web browser to navigate, click, type, and take screenshots';
+  description = 'Control a web browser to navigate, click, type, take screenshots, and manage tabs';
   parameters = {
-    action: {
-      type: 'string',
-      enum: ['open', 'navigate', 'click', 'type', 'screenshot', 'snapshot', 'close'],
-      description: 'The browser action to perform',
-    },
-    url: {
-      type: 'string',
-      description: 'URL to open or navigate to',
-    },
-    selector: {
-      type: 'string',
-      description: 'CSS selector for click/type actions',
-    },
-    text: {
-      type: 'string',
-      description: 'Text to type',
-    },
-    fullPage: {
-      type: 'boolean',
-      description: 'Take full page screenshot',
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: [
+          'open',
+          'navigate',
+          'click',
+          'type',
+          'hover',
+          'select',
+          'press',
+          'screenshot',
+          'snapshot',
+          'tab_list',
+          'tab_open',
+          'tab_focus',
+          'tab_close',
+          'close',
+        ],
+        description:
+          'The browser action to perform: snapshot lists the page structure with element refs, ' +
+          'select chooses an option in a dropdown, press sends a key such as Enter, ' +
+          'tab_* manage tabs, close closes the browser profile and saves its login state',
+      },
+      url: {
+        type: 'string',
+        description: 'URL to open or navigate to (tab_open: optional URL for the new tab)',
+      },
+      ref: {
+        type: 'string',
+        description:
+          'Element ref from the latest snapshot (e.g. e12) for click/type/hover/select/press; for snapshot, limits it to that element',
+      },
+      selector: {
+        type: 'string',
+        description: 'CSS selector, used when no ref is given',
+      },
+      text: {
+        type: 'string',
+        description: 'Text to type, or the option value or label to select',
+      },
+      key: {
+        type: 'string',
+        description: 'Key to press (e.g. Enter, Tab, Control+A)',
+      },
+      page: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Snapshot page to return (1-based), for large pages',
+      },
+      fullPage: {
+        type: 'boolean',
+        description: 'Take full page screenshot',
+      },
+      tabId: {
+        type: 'string',
+        description: 'Tab for tab_focus/tab_close (from tab_list); tab_close defaults to the current tab',
+      },
+      profile: {
+        type: 'string',
+        description: 'Browser profile with its own cookies and login state (default: "default")',
+      },
     },
+    required: ['action'],
   };
 
-  private browser: PlaywrightBrowser | null = null;
-  private page: any = null;
+  /** 共享浏览器和页面，串行执行 */
+  concurrencySafe = false;
+
+  /** 正在启动或已启动的浏览器，并发的首次调用共用同一次启动 */
+  private browser: Promise<PlaywrightBrowser> | null = null;
+  /** `${sessionId}:${profile}` → 浏览器上下文 */
+  private sessions: Map<string, BrowserSession> = new Map();
+  /** 正在创建的浏览器上下文，创建期间不关闭浏览器 */
+  private opening: Map<string, Promise<BrowserSession>> = new Map();
   private config: BrowserToolConfig;
 
   constructor(config: BrowserToolConfig = {}) {
@@ -49,85 +136,353 @@ export class BrowserTool extends BaseTool {
     this.config = config;
   }
 
-  async execute(callId: string, args: Record<string, unknown>): Promise<unknown> {
-    this.validateArgs(args);
+  async execute(
+    callId: string,
+    args: Record<string, unknown>,
+    context?: ToolExecutionContext
+  ): Promise<unknown> {
+    args = this.validateArgs(args);
 
     const action = args.action as string;
+    const signal = context?.signal;
+    signal?.throwIfAborted();
 
-    try {
-      // 延迟导入 Playwright（可选依赖）
-      const { chromium } = await import('playwright');
+    const profile = (args.profile as string | undefined) ?? DEFAULT_PROFILE;
+    if (!/^[\w-]+$/.test(profile)) {
+      throw new Error(`Invalid browser profile name: ${profile}`);
+    }
+    const sessionId = context?.sessionId ?? 'default';
 
-      // 初始化浏览器（如果需要）
-      if (!this.browser) {
-        this.browser = await chromium.launch({
-          headless: this.config.headless ?? false,
-          executablePath: this.config.executablePath,
-        });
-      }
+    // 运行取消时停止正在进行的页面加载
+    let page: Page | undefined;
+    const onAbort = () => {
+      page?.evaluate('window.stop()').catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
 
-      // 获取或创建页面
-      if (!this.page) {
-        const context = await this.browser.newContext();
-        this.page = await context.newPage();
+    try {
+      if (action === 'close') {
+        const closed = await this.closeSession(sessionId, profile);
+        return { success: true, action: 'closed', profile, closed };
       }
 
-      switch (action) {
-        case 'open':
-        case 'navigate':
-          if (!args.url) throw new Error('URL required for open/navigate');
-          await this.page.goto(args.url as string);
-          return { success: true, url: args.url };
-
-        case 'click':
-          if (!args.selector) throw new Error('Selector required for click');
-          await this.page.click(args.selector as string);
-          return { success: true, action: 'clicked', selector: args.selector };
-
-        case 'type':
-          if (!args.selector || !args.text) {
-            throw new Error('Selector and text required for type');
-          }
-          await this.page.fill(args.selector as string, args.text as string);
-          return { success: true, action: 'typed', selector: args.selector };
-
-        case 'screenshot':
-          const screenshot = await this.page.screenshot({
-            fullPage: args.fullPage as boolean ?? false,
-          });
-          return {
-            success: true,
-            screenshot: screenshot.toString('base64'),
-            format: 'png',
-          };
-
-        case 'snapshot':
-          // 获取页面快照（DOM结构）
-          const content = await this.page.content();
-          const title = await this.page.title();
-          return {
-            success: true,
-            title,
-            content: content.substring(0, 10000), // 限制大小
-          };
-
-        case 'close':
-          if (this.page) {
-            await this.page.close();
-            this.page = null;
-          }
-          if (this.browser) {
-            await this.browser.close();
-            this.browser = null;
-          }
-          return { success: true, action: 'closed' };
-
-        default:
-          throw new Error(`Unknown action: ${action}`);
+      const session = await this.getSession(sessionId, profile);
+      const result = await this.runAction(session, action, args, (current) => {
+        page = current;
+      });
+
+      if (!READ_ONLY_ACTIONS.includes(action)) {
+        await this.saveStorageState(session);
       }
+      return result;
     } catch (error) {
+      if (signal?.aborted) {
+        throw new Error('Browser action cancelled');
+      }
       const message = error instanceof Error ? error.message : String(error);
       throw new Error(`Browser tool error: ${message}`);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * 会话结束时关闭其浏览器上下文（保存登录状态），范围为空时同时关闭浏览器
+   */
+  async release(scope: ToolReleaseScope = {}): Promise<void> {
+    // 浏览器上下文在会话的多次运行之间保留
+    if (scope.runId && !scope.sessionId) return;
+
+    for (const session of Array.from(this.sessions.values())) {
+      if (!scope.sessionId || session.sessionId === scope.sessionId) {
+        await this.closeSession(session.sessionId, session.profile);
+      }
+    }
+  }
+
+  private async runAction(
+    session: BrowserSession,
+    action: string,
+    args: Record<string, unknown>,
+    onPage: (page: Page) => void
+  ): Promise<Record<string, unknown>> {
+    switch (action) {
+      case 'tab_list':
+        return { success: true, profile: session.profile, tabs: await this.listTabs(session) };
+
+      case 'tab_open': {
+        const tabId = await this.openTab(session);
+        const page = session.tabs.get(tabId)!;
+        onPage(page);
+        if (args.url) await page.goto(args.url as string);
+        return { success: true, tabId, url: page.url() };
+      }
+
+      case 'tab_focus': {
+        const tabId = args.tabId as string | undefined;
+        const page = tabId ? session.tabs.get(tabId) : undefined;
+        if (!tabId || !page) throw new Error(`Tab not found: ${tabId}`);
+        session.activeTab = tabId;
+        await page.bringToFront();
+        return { success: true, tabId, url: page.url(), title: await page.title() };
+      }
+
+      case 'tab_close': {
+        const tabId = (args.tabId as string | undefined) ?? session.activeTab;
+        const page = tabId ? session.tabs.get(tabId) : undefined;
+        if (!tabId || !page) throw new Error(`Tab not found: ${tabId}`);
+        // 由 close 事件从标签页列表中移除
+        await page.close();
+        return { success: true, tabId, activeTab: session.activeTab, tabs: await this.listTabs(session) };
+      }
+    }
+
+    const page = await this.activePage(session);
+    onPage(page);
+
+    switch (action) {
+      case 'open':
+      case 'navigate':
+        if (!args.url) throw new Error('URL required for open/navigate');
+        await page.goto(args.url as string);
+        return { success: true, url: args.url, tabId: session.activeTab };
+
+      case 'click':
+        await page.click(await this.resolveTarget(page, args));
+        return { success: true, action: 'clicked', ...target(args) };
+
+      case 'type':
+        if (args.text === undefined) throw new Error('Text required for type');
+        await page.fill(await this.resolveTarget(page, args), args.text as string);
+        return { success: true, action: 'typed', ...target(args) };
+
+      case 'hover':
+        await page.hover(await this.resolveTarget(page, args));
+        return { success: true, action: 'hovered', ...target(args) };
+
+      case 'select':
+        if (args.text === undefined) throw new Error('Text required for select');
+        // 字符串同时匹配选项的值和显示文本
+        const selected = await page.selectOption(await this.resolveTarget(page, args), args.text as string);
+        return { success: true, action: 'selected', ...target(args), values: selected };
+
+      case 'press':
+        if (!args.key) throw new Error('Key required for press');
+        if (args.ref || args.selector) {
+          await page.press(await this.resolveTarget(page, args), args.key as string);
+        } else {
+          await page.keyboard.press(args.key as string);
+        }
+        return { success: true, action: 'pressed', key: args.key, ...target(args) };
+
+      case 'screenshot':
+        const screenshot = await page.screenshot({
+          fullPage: args.fullPage as boolean ?? false,
+        });
+        return {
+          success: true,
+          screenshot: screenshot.toString('base64'),
+          format: 'png',
+        };
+
+      case 'snapshot':
+        return { success: true, tabId: session.activeTab, ...(await this.snapshot(page, args)) };
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+  }
+
+  /**
+   * 获取或创建会话的浏览器上下文（加载 profile 保存的 storage state）
+   */
+  private getSession(sessionId: string, profile: string): Promise<BrowserSession> {
+    const key = `${sessionId}:${profile}`;
+    const existing = this.sessions.get(key);
+    if (existing) return Promise.resolve(existing);
+
+    let opening = this.opening.get(key);
+    if (!opening) {
+      opening = this.openSession(sessionId, profile).finally(() => this.opening.delete(key));
+      this.opening.set(key, opening);
     }
+    return opening;
   }
+
+  private async openSession(sessionId: string, profile: string): Promise<BrowserSession> {
+    const browser = await this.getBrowser();
+    const storagePath = this.getStoragePath(sessionId, profile);
+    const context = await browser.newContext({
+      storageState: storagePath && existsSync(storagePath) ? storagePath : undefined,
+    });
+
+    const session: BrowserSession = { sessionId, profile, context, tabs: new Map(), nextTab: 1 };
+    // 页面自行打开的窗口（target=_blank、window.open）同样作为标签页
+    context.on('page', (page) => this.addTab(session, page));
+    this.sessions.set(`${sessionId}:${profile}`, session);
+    return session;
+  }
+
+  private getBrowser(): Promise<PlaywrightBrowser> {
+    if (!this.browser) {
+      const launch = (async () => {
+        // 延迟导入 Playwright（可选依赖）
+        const { chromium } = await import('playwright');
+        return chromium.launch({
+          headless: this.config.headless ?? !hasDisplay(),
+          executablePath: this.config.executablePath,
+        });
+      })();
+      // 启动失败时下次调用重新启动
+      launch.catch(() => {
+        if (this.browser === launch) this.browser = null;
+      });
+      this.browser = launch;
+    }
+    return this.browser;
+  }
+
+  /**
+   * 关闭会话的浏览器上下文，没有打开或正在创建的上下文时同时关闭浏览器
+   */
+  private async closeSession(sessionId: string, profile: string): Promise<boolean> {
+    const key = `${sessionId}:${profile}`;
+    // 正在创建时等待创建完成后再关闭
+    await this.opening.get(key)?.catch(() => {});
+    const session = this.sessions.get(key);
+    if (!session) return false;
+
+    this.sessions.delete(key);
+    try {
+      await this.saveStorageState(session);
+    } finally {
+      await session.context.close();
+    }
+
+    if (this.sessions.size === 0 && this.opening.size === 0 && this.browser) {
+      const launch = this.browser;
+      this.browser = null;
+      await (await launch.catch(() => undefined))?.close();
+    }
+    return true;
+  }
+
+  private async openTab(session: BrowserSession): Promise<string> {
+    const page = await session.context.newPage();
+    // context 的 page 事件也会登记同一页面，addTab 按页面去重
+    const tabId = this.addTab(session, page);
+    session.activeTab = tabId;
+    return tabId;
+  }
+
+  private addTab(session: BrowserSession, page: Page): string {
+    for (const [tabId, existing] of session.tabs) {
+      if (existing === page) return tabId;
+    }
+
+    const tabId = `t${session.nextTab++}`;
+    session.tabs.set(tabId, page);
+    session.activeTab = tabId;
+    page.on('close', () => {
+      session.tabs.delete(tabId);
+      if (session.activeTab === tabId) {
+        session.activeTab = Array.from(session.tabs.keys()).pop();
+      }
+    });
+    return tabId;
+  }
+
+  /**
+   * 当前标签页，没有时新建
+   */
+  private async activePage(session: BrowserSession): Promise<Page> {
+    const page = session.activeTab ? session.tabs.get(session.activeTab) : undefined;
+    if (page) return page;
+    return session.tabs.get(await this.openTab(session))!;
+  }
+
+  private async listTabs(session: BrowserSession): Promise<Array<Record<string, unknown>>> {
+    return Promise.all(
+      Array.from(session.tabs, async ([tabId, page]) => ({
+        tabId,
+        url: page.url(),
+        title: await page.title().catch(() => ''),
+        active: tabId === session.activeTab,
+      }))
+    );
+  }
+
+  private async saveStorageState(session: BrowserSession): Promise<void> {
+    const storagePath = this.getStoragePath(session.sessionId, session.profile);
+    if (!storagePath) return;
+
+    // 登录状态包含 cookie，仅所有者可读
+    await fs.mkdir(dirname(storagePath), { recursive: true, mode: 0o700 });
+    await session.context.storageState({ path: storagePath });
+    await fs.chmod(storagePath, 0o600);
+  }
+
+  /**
+   * 会话 profile 的 storage state 路径：会话 ID 编码为单个目录名，各会话的登录状态互不覆盖
+   */
+  private getStoragePath(sessionId: string, profile: string): string | undefined {
+    if (!this.config.storageDir) return undefined;
+    const sessionDir = encodeURIComponent(sessionId).replace(/\./g, '%2E');
+    return join(this.config.storageDir, sessionDir, `${profile}.json`);
+  }
+
+  /**
+   * 页面快照：可访问性语义结构，按字符数分页
+   */
+  private async snapshot(page: Page, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const root = args.ref || args.selector ? await this.resolveTarget(page, args) : undefined;
+    const snapshot = (await page.evaluate(
+      `(${SNAPSHOT_SCRIPT})(${JSON.stringify({ refAttribute: REF_ATTRIBUTE, root })})`
+    )) as PageSnapshot;
+
+    const pages = paginateLines(renderSnapshot(snapshot.nodes), this.config.snapshotPageChars ?? 8000);
+    const pageNumber = (args.page as number | undefined) ?? 1;
+    if (pageNumber > pages.length) {
+      throw new Error(`Snapshot page ${pageNumber} out of range (${pages.length} pages)`);
+    }
+
+    return {
+      title: snapshot.title,
+      url: snapshot.url,
+      snapshot: pages[pageNumber - 1],
+      refs: snapshot.refs,
+      page: pageNumber,
+      totalPages: pages.length,
+      hasMore: pageNumber < pages.length,
+    };
+  }
+
+  /**
+   * 将 ref 或选择器解析为 Playwright 选择器
+   */
+  private async resolveTarget(page: Page, args: Record<string, unknown>): Promise<string> {
+    if (typeof args.ref === 'string') {
+      if (!/^e\d+$/.test(args.ref)) throw new Error(`Invalid element ref: ${args.ref}`);
+      const selector = `[${REF_ATTRIBUTE}="${args.ref}"]`;
+      // 页面跳转或重新渲染后引用失效
+      if (!(await page.$(selector))) {
+        throw new Error(`Element ref ${args.ref} not found; take a new snapshot`);
+      }
+      return selector;
+    }
+    if (typeof args.selector === 'string') return args.selector;
+    throw new Error('ref or selector required');
+  }
+}
+
+function target(args: Record<string, unknown>): Record<string, unknown> {
+  return args.ref ? { ref: args.ref } : { selector: args.selector };
+}
+
+/**
+ * 是否有图形界面：Linux 等系统以 DISPLAY / WAYLAND_DISPLAY 判断，macOS 和 Windows 视为有
+ */
+function hasDisplay(): boolean {
+  if (process.platform === 'darwin' || process.platform === 'win32') return true;
+  return Boolean(process.env.DISPLAY || process.env.WAYLAND_DISPLAY);
 }
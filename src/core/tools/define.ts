@@ -0,0 +1,50 @@
+/**
+ * defineTool - 用 zod 声明参数的工具
+ *
+ * - 由 zod schema 生成提供商可用的 JSON Schema
+ * - 执行前校验并转换参数（默认值、transform、coerce 等），失败时抛出 ToolArgumentsError
+ */
+
+import type { z, ZodTypeAny } from 'zod';
+import { zodIssues, zodToJsonSchema } from '../schema/json-schema.js';
+import { ToolArgumentsError, type AgentTool, type ToolExecutionContext } from './base.js';
+
+export interface ToolDefinition<TInput extends ZodTypeAny> {
+  name: string;
+  description: string;
+  /** 参数 schema（根类型须为 object） */
+  input: TInput;
+  /** 能否与同一轮的其他调用并行执行，默认 false */
+  concurrencySafe?: boolean | ((args: Record<string, unknown>) => boolean);
+  execute(args: z.output<TInput>, context: ToolExecutionContext & { callId: string }): Promise<unknown>;
+}
+
+/**
+ * 定义工具
+ *
+ * @example
+ * const weather = defineTool({
+ *   name: 'weather',
+ *   description: 'Get the weather for a city',
+ *   input: z.object({ city: z.string(), unit: z.enum(['c', 'f']).default('c') }),
+ *   execute: async ({ city, unit }) => fetchWeather(city, unit),
+ * });
+ */
+export function defineTool<TInput extends ZodTypeAny>(definition: ToolDefinition<TInput>): AgentTool {
+  const parameters = zodToJsonSchema(definition.input);
+
+  return {
+    name: definition.name,
+    description: definition.description,
+    parameters,
+    concurrencySafe: definition.concurrencySafe,
+
+    async execute(callId, args, context = {}) {
+      const result = definition.input.safeParse(args);
+      if (!result.success) {
+        throw new ToolArgumentsError(definition.name, zodIssues(result.error));
+      }
+      return definition.execute(result.data, { ...context, callId });
+    },
+  };
+}
@@ -5,39 +5,76 @@
  * 包含安全限制和沙箱支持
  */
 
-import { BaseTool } from './base.js';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { BaseTool, type ToolExecutionContext, type ToolReleaseScope } from './base.js';
+import { ProcessManager, killProcessGroup } from './process-manager.js';
+import { buildSandboxCommand } from './sandbox.js';
+import { checkCommand, CommandRejectedError } from '../policy/command.js';
+import type { WorkspaceGuard } from '../workspace/guard.js';
+import type { SandboxConfig } from '../../types/index.js';
+import { spawn } from 'child_process';
 
 export interface ExecToolConfig {
   timeout?: number;
   maxOutputBytes?: number;
+  /** 允许的命令规则（如 `git status`、`npm run *`），设置后其他命令被拒绝 */
   allowedCommands?: string[];
+  /** 拒绝的命令规则（如 `rm -rf`），参见 policy/command.ts */
   blockedCommands?: string[];
-  sandbox?: boolean;
+  /** 沙箱模式：true 使用默认沙箱配置 */
+  sandbox?: boolean | SandboxConfig;
+  /** 后台进程管理器，与 ProcessTool 共用；默认新建 */
+  processes?: ProcessManager;
+  /** 非沙箱模式下工作目录须在其工作区内，默认为该工作区根目录 */
+  workspace?: WorkspaceGuard;
+}
+
+interface CommandSpec {
+  file: string;
+  args: string[];
+  cwd: string;
+  env?: NodeJS.ProcessEnv;
+  shell: boolean;
 }
 
 export class ExecTool extends BaseTool {
   name = 'exec';
   description = 'Execute shell commands (use with caution)';
   parameters = {
-    command: {
-      type: 'string',
-      description: 'Shell command to execute',
-    },
-    timeout: {
-      type: 'number',
-      description: 'Timeout in milliseconds',
-    },
-    cwd: {
-      type: 'string',
-      description: 'Working directory',
+    type: 'object',
+    properties: {
+      command: {
+        type: 'string',
+        description: 'Shell command to execute',
+      },
+      timeout: {
+        type: 'number',
+        description: 'Timeout in milliseconds (ignored for background commands)',
+      },
+      cwd: {
+        type: 'string',
+        description: 'Working directory',
+      },
+      background: {
+        type: 'boolean',
+        description:
+          'Run in the background and return a process ID immediately; use the process tool to poll output, write stdin or kill it',
+      },
+      keepAlive: {
+        type: 'boolean',
+        description: 'For background commands: keep running after this run ends, until the session ends',
+      },
     },
+    required: ['command'],
   };
 
-  private config: ExecToolConfig;
+  /** 命令可能修改文件系统或依赖执行顺序，串行执行 */
+  concurrencySafe = false;
+
+  /** 后台进程（ProcessTool 通过它访问） */
+  readonly processes: ProcessManager;
+
+  private config: Omit<ExecToolConfig, 'processes' | 'workspace'>;
+  private workspace?: WorkspaceGuard;
 
   constructor(config: ExecToolConfig = {}) {
     super();
@@ -45,74 +82,186 @@ export class ExecTool extends BaseTool {
       timeout: config.timeout ?? 30000,
       maxOutputBytes: config.maxOutputBytes ?? 1000000,
       allowedCommands: config.allowedCommands,
-      blockedCommands: config.blockedCommands ?? ['rm -rf', 'format', 'del /f'],
+      blockedCommands: config.blockedCommands ?? ['rm -rf', 'rm -Rf', 'rm --recursive --force', 'format', 'del /f'],
       sandbox: config.sandbox ?? false,
     };
+    this.processes = config.processes ?? new ProcessManager(this.config.maxOutputBytes);
+    this.workspace = config.workspace;
   }
 
-  async execute(callId: string, args: Record<string, unknown>): Promise<unknown> {
-    this.validateArgs(args);
+  async execute(
+    callId: string,
+    args: Record<string, unknown>,
+    context?: ToolExecutionContext
+  ): Promise<unknown> {
+    args = this.validateArgs(args);
 
     const command = args.command as string;
     const timeout = (args.timeout as number) || this.config.timeout || 30000;
-    const cwd = (args.cwd as string) || process.cwd();
 
     // 安全检查
     this.validateCommand(command);
 
-    try {
-      const { stdout, stderr } = await execAsync(command, {
-        timeout,
-        cwd,
-        maxBuffer: this.config.maxOutputBytes,
+    // 沙箱模式：工作目录固定在工作区内，清理环境变量并限制资源
+    const sandboxConfig = this.config.sandbox === true ? {} : this.config.sandbox || undefined;
+    const sandboxed = sandboxConfig
+      ? buildSandboxCommand(command, args.cwd as string | undefined, sandboxConfig)
+      : undefined;
+    const sandbox = sandboxed ? { mode: sandboxed.mode, network: sandboxed.network } : undefined;
+    const spec: CommandSpec = sandboxed
+      ? { file: sandboxed.file, args: sandboxed.args, cwd: sandboxed.cwd, env: sandboxed.env, shell: false }
+      : { file: command, args: [], cwd: await this.resolveCwd(args.cwd as string | undefined, context), shell: true };
+
+    if (args.background) {
+      const info = this.processes.start({
+        ...spec,
+        command,
+        runId: context?.runId,
+        sessionId: context?.sessionId,
+        keepAlive: args.keepAlive === true,
+        // 后台进程的输出同样以进度报告，带上进程 ID 以区分
+        onOutput: (stream, chunk) => context?.onProgress?.({ stream, chunk, processId: info.id }),
       });
 
-      // 限制输出大小
-      const truncatedStdout = this.truncateOutput(stdout);
-      const truncatedStderr = this.truncateOutput(stderr);
+      return {
+        success: info.status === 'running',
+        command,
+        background: true,
+        processId: info.id,
+        pid: info.pid,
+        status: info.status,
+        sandbox,
+      };
+    }
+
+    const result = await this.runCommand(spec, timeout, context);
 
+    if (context?.signal?.aborted) {
       return {
-        success: true,
+        success: false,
         command,
-        stdout: truncatedStdout,
-        stderr: truncatedStderr,
-        exitCode: 0,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        exitCode: null,
+        cancelled: true,
+        error: 'Command cancelled',
+        sandbox,
       };
-    } catch (error: unknown) {
-      const execError = error as { stdout?: string; stderr?: string; code?: number };
-      
+    }
+
+    if (result.error) {
       return {
         success: false,
         command,
-        stdout: this.truncateOutput(execError.stdout || ''),
-        stderr: this.truncateOutput(execError.stderr || ''),
-        exitCode: execError.code || 1,
-        error: error instanceof Error ? error.message : String(error),
+        stdout: result.stdout,
+        stderr: result.stderr,
+        exitCode: result.exitCode ?? 1,
+        error: result.error,
+        sandbox,
       };
     }
+
+    return {
+      success: true,
+      command,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: 0,
+      sandbox,
+    };
   }
 
   /**
-   * 验证命令安全性
+   * 运行结束时终止其后台进程（keepAlive 的除外），会话结束时终止该会话的全部后台进程
    */
-  private validateCommand(command: string): void {
-    // 检查阻止的命令
-    if (this.config.blockedCommands) {
-      for (const blocked of this.config.blockedCommands) {
-        if (command.includes(blocked)) {
-          throw new Error(`Blocked command pattern: ${blocked}`);
-        }
-      }
-    }
+  release(scope: ToolReleaseScope): void {
+    this.processes.release(scope);
+  }
+
+  /**
+   * 执行命令直到退出，输出通过 onProgress 实时报告
+   *
+   * 超时或运行取消时终止子进程
+   */
+  private runCommand(
+    spec: CommandSpec,
+    timeout: number,
+    context?: ToolExecutionContext
+  ): Promise<{ stdout: string; stderr: string; exitCode: number | null; error?: string }> {
+    return new Promise((resolve) => {
+      const output = { stdout: '', stderr: '' };
+      const maxBytes = this.config.maxOutputBytes || 1000000;
+      let timedOut = false;
 
-    // 检查允许的命令（如果设置了白名单）
-    if (this.config.allowedCommands && this.config.allowedCommands.length > 0) {
-      const allowed = this.config.allowedCommands.some((pattern) =>
-        command.includes(pattern)
-      );
-      if (!allowed) {
-        throw new Error('Command not in allowlist');
+      // 独立进程组，超时或取消时连同 shell 启动的子进程一起终止
+      const child = spawn(spec.file, spec.args, {
+        cwd: spec.cwd,
+        env: spec.env,
+        shell: spec.shell,
+        detached: process.platform !== 'win32',
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      const onAbort = () => killProcessGroup(child);
+      context?.signal?.addEventListener('abort', onAbort, { once: true });
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killProcessGroup(child);
+      }, timeout);
+
+      for (const stream of ['stdout', 'stderr'] as const) {
+        child[stream]?.setEncoding('utf8');
+        child[stream]?.on('data', (chunk: string) => {
+          // 超过上限的部分只报告进度，不再累积
+          if (output[stream].length <= maxBytes) {
+            output[stream] += chunk;
+          }
+          context?.onProgress?.({ stream, chunk });
+        });
       }
+
+      const finish = (exitCode: number | null, error?: string) => {
+        clearTimeout(timer);
+        context?.signal?.removeEventListener('abort', onAbort);
+        resolve({
+          stdout: this.truncateOutput(output.stdout),
+          stderr: this.truncateOutput(output.stderr),
+          exitCode,
+          error,
+        });
+      };
+
+      child.on('error', (error) => finish(null, error.message));
+      child.on('close', (code, signal) => {
+        if (timedOut) {
+          finish(null, `Command timed out after ${timeout}ms`);
+        } else if (code !== 0) {
+          finish(code, signal ? `Command terminated by ${signal}` : `Command failed with exit code ${code}`);
+        } else {
+          finish(0);
+        }
+      });
+    });
+  }
+
+  /**
+   * 非沙箱模式的工作目录
+   */
+  private async resolveCwd(cwd: string | undefined, context?: ToolExecutionContext): Promise<string> {
+    if (!this.workspace) return cwd || process.cwd();
+    return this.workspace.resolve(cwd || '.', 'read', { runId: context?.runId, tool: this.name, action: 'cwd' });
+  }
+
+  /**
+   * 验证命令安全性：解析为 shell 语法树，逐个检查其中的命令
+   */
+  private validateCommand(command: string): void {
+    const rejection = checkCommand(command, {
+      allow: this.config.allowedCommands,
+      deny: this.config.blockedCommands,
+    });
+    if (rejection) {
+      throw new CommandRejectedError(rejection);
     }
   }
 
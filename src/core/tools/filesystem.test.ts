@@ -0,0 +1,65 @@
+import { promises as fs } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { FileSystemTool } from './filesystem.js';
+
+let root: string;
+let tool: FileSystemTool;
+
+const read = (args: Record<string, unknown>) =>
+  tool.execute('call_1', { action: 'read', ...args }) as Promise<Record<string, unknown>>;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'filesystem-'));
+  tool = new FileSystemTool(root, { maxFileBytes: 1024 });
+  await fs.writeFile(join(root, 'small.txt'), 'a\nb\nc');
+  await fs.writeFile(join(root, 'large.txt'), Array.from({ length: 1000 }, (_, i) => `línea ${i}\n`).join(''));
+  await fs.writeFile(join(root, 'long-line.txt'), 'x'.repeat(4096));
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('FileSystemTool read', () => {
+  it('reads small files whole and reports the size in bytes', async () => {
+    expect(await read({ path: 'small.txt' })).toMatchObject({
+      content: 'a\nb\nc',
+      size: 5,
+      totalLines: 3,
+    });
+    expect(await read({ path: 'small.txt', offset: 2, limit: 1 })).toMatchObject({
+      content: 'b\n',
+      startLine: 2,
+      endLine: 2,
+      hasMore: true,
+    });
+  });
+
+  it('pages files over the size limit without exceeding it', async () => {
+    const { size } = await fs.stat(join(root, 'large.txt'));
+    const first = await read({ path: 'large.txt' });
+    expect(first).toMatchObject({ size, startLine: 1, hasMore: true });
+    expect(first.totalLines).toBeUndefined();
+    expect(Buffer.byteLength(first.content as string)).toBeLessThanOrEqual(1024);
+    expect((first.content as string).startsWith('línea 0\n')).toBe(true);
+
+    const next = await read({ path: 'large.txt', offset: (first.endLine as number) + 1 });
+    expect((next.content as string).startsWith(`línea ${first.endLine}\n`)).toBe(true);
+  });
+
+  it('reads the requested range of a large file', async () => {
+    expect(await read({ path: 'large.txt', offset: 999, limit: 10 })).toMatchObject({
+      content: 'línea 998\nlínea 999\n',
+      startLine: 999,
+      endLine: 1000,
+      hasMore: false,
+    });
+  });
+
+  it('rejects lines longer than the size limit', async () => {
+    await expect(read({ path: 'long-line.txt' })).rejects.toThrow(/longer than 1024 bytes/);
+  });
+});
@@ -2,61 +2,182 @@
  * File System Tool - 文件系统工具
  * 
  * 支持文件读写、编辑、列表等操作
+ * 编辑操作（查找替换、按行替换、插入、应用 diff）返回变更的统一 diff
+ * 搜索操作（递归列表、glob、grep）遵循 .gitignore，跳过二进制文件和超过大小上限的文件
  */
 
-import { BaseTool } from './base.js';
-import { promises as fs } from 'fs';
-import { join, resolve } from 'path';
+import { BaseTool, type ToolExecutionContext } from './base.js';
+import { applyPatch, countChanges, createPatch, splitLines } from '../utils/diff.js';
+import { globToRegExp } from '../utils/glob.js';
+import { walk } from '../utils/walk.js';
+import { WorkspaceGuard } from '../workspace/guard.js';
+import type { FileAccess } from '../../types/index.js';
+import { createReadStream, promises as fs } from 'fs';
+import { join, relative, resolve, sep } from 'path';
+
+export interface FileSystemToolOptions {
+  /** grep 搜索和整体读取的单个文件大小上限（字节），默认 1MB；更大的文件按行范围流式读取 */
+  maxFileBytes?: number;
+  /** 递归列表、glob、grep 返回的最大条目数，默认 500 */
+  maxResults?: number;
+}
+
+/** 超过大小上限的文件整体读取时返回的行数 */
+const DEFAULT_READ_LINES = 2000;
+/** 二进制检测读取的字节数 */
+const BINARY_SAMPLE_BYTES = 8000;
+/** grep 结果中单行的最大长度 */
+const MAX_MATCH_LINE_LENGTH = 500;
+/** 只读的动作 */
+const READ_ACTIONS = ['read', 'list', 'glob', 'grep', 'stat'];
 
 export class FileSystemTool extends BaseTool {
   name = 'filesystem';
-  description = 'Read, write, edit, and list files in the workspace';
+  description = 'Read, write, edit, search, and list files in the workspace';
   parameters = {
-    action: {
-      type: 'string',
-      enum: ['read', 'write', 'list', 'delete'],
-      description: 'The file system action',
-    },
-    path: {
-      type: 'string',
-      description: 'File or directory path',
-    },
-    content: {
-      type: 'string',
-      description: 'Content to write (for write action)',
-    },
-    recursive: {
-      type: 'boolean',
-      description: 'List recursively (for list action)',
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['read', 'write', 'edit', 'replace_lines', 'insert', 'patch', 'list', 'glob', 'grep', 'stat', 'delete'],
+        description:
+          'The file system action: edit replaces oldText with newText, replace_lines replaces startLine..endLine, ' +
+          'insert adds content after line, patch applies a unified diff, glob finds files by pattern, ' +
+          'grep searches file contents by regex, stat returns file metadata',
+      },
+      path: {
+        type: 'string',
+        description: 'File or directory path',
+      },
+      content: {
+        type: 'string',
+        description: 'Content to write (write), replacement lines (replace_lines) or lines to insert (insert)',
+      },
+      offset: {
+        type: 'integer',
+        minimum: 1,
+        description: 'For read: first line to return (1-based)',
+      },
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        description: 'For read: maximum number of lines to return',
+      },
+      oldText: {
+        type: 'string',
+        description: 'For edit: exact text to replace; must occur exactly once unless replaceAll is true',
+      },
+      newText: {
+        type: 'string',
+        description: 'For edit: replacement text',
+      },
+      replaceAll: {
+        type: 'boolean',
+        description: 'For edit: replace every occurrence of oldText',
+      },
+      startLine: {
+        type: 'integer',
+        minimum: 1,
+        description: 'For replace_lines: first line to replace (1-based)',
+      },
+      endLine: {
+        type: 'integer',
+        minimum: 1,
+        description: 'For replace_lines: last line to replace (inclusive)',
+      },
+      line: {
+        type: 'integer',
+        minimum: 0,
+        description: 'For insert: insert after this line (0 inserts at the beginning)',
+      },
+      diff: {
+        type: 'string',
+        description: 'For patch: unified diff for this file',
+      },
+      recursive: {
+        type: 'boolean',
+        description: 'List recursively (for list action)',
+      },
+      pattern: {
+        type: 'string',
+        description:
+          'For glob: path pattern relative to path (e.g. **/*.ts); for grep: regular expression to search for',
+      },
+      include: {
+        type: 'string',
+        description: 'For grep: only search files matching this glob (e.g. *.ts or src/**/*.ts)',
+      },
+      ignoreCase: {
+        type: 'boolean',
+        description: 'For grep: case-insensitive search',
+      },
+      context: {
+        type: 'integer',
+        minimum: 0,
+        description: 'For grep: lines of context before and after each match',
+      },
+      maxResults: {
+        type: 'integer',
+        minimum: 1,
+        description: 'For list (recursive), glob and grep: maximum number of results',
+      },
+      includeIgnored: {
+        type: 'boolean',
+        description: 'For list (recursive), glob and grep: include files ignored by .gitignore',
+      },
     },
+    required: ['action', 'path'],
   };
 
-  private workspaceRoot: string;
+  /** 读操作互不影响，可并行执行 */
+  concurrencySafe = (args: Record<string, unknown>) => READ_ACTIONS.includes(args.action as string);
 
-  constructor(workspaceRoot: string) {
+  private guard: WorkspaceGuard;
+  private maxFileBytes: number;
+  private maxResults: number;
+
+  /**
+   * @param workspace 工作区根目录，或与其他工具共用的 WorkspaceGuard
+   */
+  constructor(workspace: string | WorkspaceGuard, options: FileSystemToolOptions = {}) {
     super();
-    this.workspaceRoot = workspaceRoot;
+    this.guard = typeof workspace === 'string' ? new WorkspaceGuard(workspace) : workspace;
+    this.maxFileBytes = options.maxFileBytes ?? 1024 * 1024;
+    this.maxResults = options.maxResults ?? 500;
   }
 
-  async execute(callId: string, args: Record<string, unknown>): Promise<unknown> {
-    this.validateArgs(args);
+  async execute(callId: string, args: Record<string, unknown>, context?: ToolExecutionContext): Promise<unknown> {
+    args = this.validateArgs(args);
 
     const action = args.action as string;
     const path = args.path as string;
 
-    // 安全检查：防止路径遍历
-    const safePath = this.resolveSafePath(path);
+    // 安全检查：路径必须在工作区内且未被保护（同时记入运行的文件访问记录）
+    const access: FileAccess = READ_ACTIONS.includes(action) ? 'read' : 'write';
+    const safePath = await this.guard.resolve(path, access, { runId: context?.runId, tool: this.name, action });
 
     try {
       switch (action) {
         case 'read':
+          if (await isBinaryFile(safePath)) {
+            throw new Error('Cannot read binary file');
+          }
+          const { size } = await fs.stat(safePath);
+          // 大文件只流式读取请求的行范围（未指定时为开头部分），由 hasMore 提示继续分页
+          if (size > this.maxFileBytes) {
+            return { success: true, path, size, ...(await this.readLargeFile(safePath, args)) };
+          }
           const content = await fs.readFile(safePath, 'utf-8');
-          return {
-            success: true,
-            path,
-            content,
-            size: content.length,
-          };
+          if (args.offset === undefined && args.limit === undefined) {
+            return {
+              success: true,
+              path,
+              content,
+              size,
+              totalLines: splitLines(content).length,
+            };
+          }
+          return { success: true, path, size, ...this.readLines(content, args) };
 
         case 'write':
           if (!args.content) throw new Error('Content required for write');
@@ -68,7 +189,16 @@ export class FileSystemTool extends BaseTool {
             message: 'File written successfully',
           };
 
+        case 'edit':
+        case 'replace_lines':
+        case 'insert':
+        case 'patch':
+          return await this.edit(safePath, path, action, args);
+
         case 'list':
+          if (args.recursive) {
+            return { success: true, path, ...(await this.listRecursive(safePath, args, context)) };
+          }
           const entries = await fs.readdir(safePath, { withFileTypes: true });
           const items = await Promise.all(
             entries.map(async (entry) => {
@@ -88,6 +218,15 @@ export class FileSystemTool extends BaseTool {
             items,
           };
 
+        case 'glob':
+          return { success: true, path, ...(await this.glob(safePath, args, context)) };
+
+        case 'grep':
+          return { success: true, path, ...(await this.grep(safePath, args, context)) };
+
+        case 'stat':
+          return { success: true, path, ...(await this.stat(safePath)) };
+
         case 'delete':
           await fs.unlink(safePath);
           return {
@@ -106,16 +245,372 @@ export class FileSystemTool extends BaseTool {
   }
 
   /**
-   * 解析安全路径（防止路径遍历攻击）
+   * 递归列出目录
+   */
+  private async listRecursive(
+    dir: string,
+    args: Record<string, unknown>,
+    context?: ToolExecutionContext
+  ): Promise<Record<string, unknown>> {
+    const limit = (args.maxResults as number | undefined) ?? this.maxResults;
+    const items: Array<Record<string, unknown>> = [];
+    let truncated = false;
+
+    for await (const entry of this.walk(dir, args, context)) {
+      if (items.length >= limit) {
+        truncated = true;
+        break;
+      }
+      const stat = await fs.lstat(entry.absolutePath);
+      items.push({
+        path: entry.path,
+        type: entry.type,
+        size: stat.size,
+        modified: stat.mtime.getTime(),
+      });
+    }
+
+    return { items, truncated };
+  }
+
+  /**
+   * 按 glob 查找文件（模式相对于搜索目录）
+   */
+  private async glob(
+    dir: string,
+    args: Record<string, unknown>,
+    context?: ToolExecutionContext
+  ): Promise<Record<string, unknown>> {
+    if (typeof args.pattern !== 'string') throw new Error('pattern required for glob');
+    const regex = globToRegExp(args.pattern, { path: true });
+    const limit = (args.maxResults as number | undefined) ?? this.maxResults;
+    const prefix = await this.relativePrefix(dir);
+    const files: string[] = [];
+    let truncated = false;
+
+    for await (const entry of this.walk(dir, args, context)) {
+      if (entry.type !== 'file' || !regex.test(entry.path.slice(prefix.length))) continue;
+      if (files.length >= limit) {
+        truncated = true;
+        break;
+      }
+      files.push(entry.path);
+    }
+
+    return { pattern: args.pattern, files, truncated };
+  }
+
+  /**
+   * 按正则搜索文件内容，返回文件、行号和上下文
+   */
+  private async grep(
+    dir: string,
+    args: Record<string, unknown>,
+    context?: ToolExecutionContext
+  ): Promise<Record<string, unknown>> {
+    if (typeof args.pattern !== 'string') throw new Error('pattern required for grep');
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(args.pattern, args.ignoreCase ? 'i' : '');
+    } catch (error) {
+      throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // include 不含 / 时匹配任意层级的文件名
+    const include =
+      typeof args.include === 'string'
+        ? globToRegExp(args.include.includes('/') ? args.include : `**/${args.include}`, { path: true })
+        : undefined;
+    const contextLines = (args.context as number | undefined) ?? 0;
+    const limit = (args.maxResults as number | undefined) ?? this.maxResults;
+    const prefix = await this.relativePrefix(dir);
+
+    const matches: Array<Record<string, unknown>> = [];
+    const skipped: Array<{ path: string; reason: 'binary' | 'too_large' }> = [];
+    let filesSearched = 0;
+    let truncated = false;
+
+    // path 为文件时只搜索该文件
+    const stat = await fs.stat(dir);
+    const files = stat.isFile()
+      ? [{ path: prefix.replace(/\/$/, ''), absolutePath: dir }]
+      : this.walkFiles(dir, args, context);
+
+    search: for await (const file of files) {
+      if (include && !include.test(file.path.slice(prefix.length))) continue;
+
+      const size = (await fs.stat(file.absolutePath)).size;
+      if (size > this.maxFileBytes) {
+        skipped.push({ path: file.path, reason: 'too_large' });
+        continue;
+      }
+      if (await isBinaryFile(file.absolutePath)) {
+        skipped.push({ path: file.path, reason: 'binary' });
+        continue;
+      }
+
+      filesSearched++;
+      const lines = (await fs.readFile(file.absolutePath, 'utf-8')).replace(/\r?\n$/, '').split(/\r?\n/);
+      for (let i = 0; i < lines.length; i++) {
+        if (!regex.test(lines[i])) continue;
+        if (matches.length >= limit) {
+          truncated = true;
+          break search;
+        }
+
+        const match: Record<string, unknown> = { path: file.path, line: i + 1, text: clipLine(lines[i]) };
+        if (contextLines > 0) {
+          match.before = lines.slice(Math.max(0, i - contextLines), i).map(clipLine);
+          match.after = lines.slice(i + 1, i + 1 + contextLines).map(clipLine);
+        }
+        matches.push(match);
+      }
+    }
+
+    return { pattern: args.pattern, matches, filesSearched, skipped, truncated };
+  }
+
+  /**
+   * 文件元数据
+   */
+  private async stat(safePath: string): Promise<Record<string, unknown>> {
+    const stat = await fs.lstat(safePath);
+    const type = stat.isDirectory() ? 'directory' : stat.isFile() ? 'file' : stat.isSymbolicLink() ? 'symlink' : 'other';
+
+    return {
+      type,
+      size: stat.size,
+      modified: stat.mtime.getTime(),
+      created: stat.birthtime.getTime(),
+      mode: (stat.mode & 0o777).toString(8),
+      binary: type === 'file' ? await isBinaryFile(safePath) : undefined,
+    };
+  }
+
+  /**
+   * 遍历目录，跳过禁止访问的路径
+   */
+  private async *walk(dir: string, args: Record<string, unknown>, context?: ToolExecutionContext) {
+    const entries = walk(dir, {
+      root: await this.guard.realRoot(),
+      gitignore: args.includeIgnored !== true,
+      signal: context?.signal,
+    });
+    for await (const entry of entries) {
+      if (!this.guard.check(entry.path, 'read')) yield entry;
+    }
+  }
+
+  private async *walkFiles(dir: string, args: Record<string, unknown>, context?: ToolExecutionContext) {
+    for await (const entry of this.walk(dir, args, context)) {
+      if (entry.type === 'file') yield entry;
+    }
+  }
+
+  /**
+   * 搜索目录相对于工作区的路径前缀（工作区根目录为空字符串）
+   */
+  private async relativePrefix(dir: string): Promise<string> {
+    const relativePath = relative(await this.guard.realRoot(), dir).split(sep).join('/');
+    return relativePath ? `${relativePath}/` : '';
+  }
+
+  /**
+   * 按行分页读取
+   */
+  private readLines(content: string, args: Record<string, unknown>): Record<string, unknown> {
+    const lines = splitLines(content);
+    const start = ((args.offset as number | undefined) ?? 1) - 1;
+    const end = args.limit === undefined ? lines.length : Math.min(lines.length, start + (args.limit as number));
+
+    return {
+      content: lines.slice(start, end).join(''),
+      startLine: start + 1,
+      endLine: Math.max(start, end),
+      totalLines: lines.length,
+      hasMore: end < lines.length,
+    };
+  }
+
+  /**
+   * 流式读取超过大小上限的文件的行范围：读到范围结束或内容达到大小上限为止，不统计总行数
+   */
+  private async readLargeFile(safePath: string, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const start = ((args.offset as number | undefined) ?? 1) - 1;
+    const limit = (args.limit as number | undefined) ?? DEFAULT_READ_LINES;
+    const lines: string[] = [];
+    let bytes = 0;
+    let hasMore = false;
+
+    for await (const line of streamLines(safePath, this.maxFileBytes)) {
+      if (line.index < start) continue;
+      const lineBytes = Buffer.byteLength(line.text);
+      if (lines.length >= limit || (lines.length > 0 && bytes + lineBytes > this.maxFileBytes)) {
+        hasMore = true;
+        break;
+      }
+      lines.push(line.text);
+      bytes += lineBytes;
+    }
+
+    return {
+      content: lines.join(''),
+      startLine: start + 1,
+      endLine: start + lines.length,
+      hasMore,
+    };
+  }
+
+  /**
+   * 编辑文件并返回变更的 diff
    */
-  private resolveSafePath(inputPath: string): string {
-    const resolved = resolve(this.workspaceRoot, inputPath);
-    const workspaceResolved = resolve(this.workspaceRoot);
+  private async edit(
+    safePath: string,
+    path: string,
+    action: string,
+    args: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    const original = await fs.readFile(safePath, 'utf-8');
+    let updated: string;
 
-    if (!resolved.startsWith(workspaceResolved)) {
-      throw new Error('Path traversal detected');
+    switch (action) {
+      case 'edit':
+        updated = replaceText(original, args);
+        break;
+      case 'replace_lines':
+        updated = replaceLines(original, args);
+        break;
+      case 'insert':
+        updated = insertLines(original, args);
+        break;
+      default:
+        if (typeof args.diff !== 'string') throw new Error('diff required for patch');
+        updated = applyPatch(original, args.diff).text;
     }
 
-    return resolved;
+    const diff = createPatch(path, original, updated);
+    if (diff) {
+      await fs.writeFile(safePath, updated, 'utf-8');
+    }
+
+    return {
+      success: true,
+      path,
+      diff,
+      ...countChanges(diff),
+    };
+  }
+}
+
+/**
+ * 精确查找替换：oldText 必须唯一出现（replaceAll 时替换全部）
+ */
+function replaceText(original: string, args: Record<string, unknown>): string {
+  const { oldText, newText } = args;
+  if (typeof oldText !== 'string' || oldText === '') throw new Error('oldText required for edit');
+  if (typeof newText !== 'string') throw new Error('newText required for edit');
+
+  const occurrences = original.split(oldText).length - 1;
+  if (occurrences === 0) {
+    throw new Error('oldText not found in file');
   }
+  if (occurrences > 1 && args.replaceAll !== true) {
+    throw new Error(
+      `oldText occurs ${occurrences} times; include more surrounding context or set replaceAll to replace all`
+    );
+  }
+
+  return args.replaceAll === true
+    ? original.split(oldText).join(newText)
+    : original.replace(oldText, () => newText);
+}
+
+/**
+ * 替换 startLine 到 endLine（含）的行
+ */
+function replaceLines(original: string, args: Record<string, unknown>): string {
+  const lines = splitLines(original);
+  const start = args.startLine as number | undefined;
+  const end = (args.endLine as number | undefined) ?? start;
+  if (start === undefined || end === undefined) throw new Error('startLine required for replace_lines');
+  if (typeof args.content !== 'string') throw new Error('content required for replace_lines');
+  if (end < start || end > lines.length) {
+    throw new Error(`Invalid line range ${start}-${end} (file has ${lines.length} lines)`);
+  }
+
+  // 替换范围包含末行且原文件末尾没有换行时，保持没有换行
+  const keepNoEol = end === lines.length && !original.endsWith('\n');
+  const replacement = toLines(args.content, !keepNoEol);
+  return [...lines.slice(0, start - 1), replacement, ...lines.slice(end)].join('');
+}
+
+/**
+ * 在第 line 行之后插入内容
+ */
+function insertLines(original: string, args: Record<string, unknown>): string {
+  const lines = splitLines(original);
+  const line = args.line as number | undefined;
+  if (line === undefined) throw new Error('line required for insert');
+  if (typeof args.content !== 'string') throw new Error('content required for insert');
+  if (line > lines.length) {
+    throw new Error(`Line ${line} is past the end of the file (${lines.length} lines)`);
+  }
+
+  const before = lines.slice(0, line);
+  if (before.length > 0 && !before[before.length - 1].endsWith('\n')) {
+    before[before.length - 1] += '\n';
+  }
+  return [...before, toLines(args.content, true), ...lines.slice(line)].join('');
+}
+
+/**
+ * 规范化为整行内容：按需补上末尾换行
+ */
+function toLines(content: string, eol: boolean): string {
+  if (content === '') return '';
+  return eol && !content.endsWith('\n') ? `${content}\n` : content;
+}
+
+/**
+ * 二进制文件检测：开头部分包含 NUL 字节
+ */
+async function isBinaryFile(path: string): Promise<boolean> {
+  const handle = await fs.open(path, 'r');
+  try {
+    const buffer = Buffer.alloc(BINARY_SAMPLE_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, BINARY_SAMPLE_BYTES, 0);
+    return buffer.subarray(0, bytesRead).includes(0);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * 逐行读取文件（保留行尾），单行超过 maxLineBytes 时报错
+ */
+async function* streamLines(path: string, maxLineBytes: number): AsyncGenerator<{ index: number; text: string }> {
+  const stream = createReadStream(path, { encoding: 'utf-8' });
+  let index = 0;
+  let partial = '';
+
+  try {
+    for await (const chunk of stream) {
+      const parts = (partial + (chunk as string)).split('\n');
+      partial = parts.pop()!;
+      for (const part of parts) {
+        yield { index: index++, text: `${part}\n` };
+      }
+      if (Buffer.byteLength(partial) > maxLineBytes) {
+        throw new Error(`Line ${index + 1} is longer than ${maxLineBytes} bytes`);
+      }
+    }
+    if (partial) yield { index, text: partial };
+  } finally {
+    stream.destroy();
+  }
+}
+
+function clipLine(line: string): string {
+  return line.length > MAX_MATCH_LINE_LENGTH ? `${line.slice(0, MAX_MATCH_LINE_LENGTH)}...` : line;
 }
@@ -0,0 +1,300 @@
+/**
+ * Process Manager - 后台进程管理
+ *
+ * - exec 工具以 background 方式启动的进程，返回进程 ID 供后续轮询输出、写入 stdin、终止
+ * - 输出按流缓存，poll 只返回上次轮询之后的新输出（超过上限时丢弃最早的部分）
+ * - 进程归属启动它的运行：运行结束时终止，keepAlive 的进程保留到会话结束
+ * - 宿主进程退出时终止所有仍在运行的进程
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+
+export type ProcessStatus = 'running' | 'exited' | 'killed';
+export type ProcessStream = 'stdout' | 'stderr';
+
+export interface ProcessInfo {
+  id: string;
+  command: string;
+  pid?: number;
+  status: ProcessStatus;
+  exitCode: number | null;
+  signal: string | null;
+  /** 启动失败等错误 */
+  error?: string;
+  runId?: string;
+  sessionId?: string;
+  keepAlive: boolean;
+  startedAt: number;
+  endedAt?: number;
+}
+
+export interface ProcessOutput extends ProcessInfo {
+  stdout: string;
+  stderr: string;
+  /** 是否有未读输出因超过上限被丢弃 */
+  truncated: boolean;
+}
+
+export interface StartProcessOptions {
+  /** 展示用的命令 */
+  command: string;
+  file: string;
+  args?: string[];
+  cwd: string;
+  env?: NodeJS.ProcessEnv;
+  /** 通过 shell 执行 file */
+  shell?: boolean;
+  runId?: string;
+  sessionId?: string;
+  /** 运行结束后继续运行，直到会话结束 */
+  keepAlive?: boolean;
+  onOutput?: (stream: ProcessStream, chunk: string) => void;
+}
+
+/** 释放范围：按运行或会话，均未设置时释放全部 */
+export interface ProcessScope {
+  runId?: string;
+  sessionId?: string;
+}
+
+interface ManagedProcess {
+  info: ProcessInfo;
+  child: ChildProcess;
+  output: Record<ProcessStream, string>;
+  truncated: boolean;
+  killRequested: boolean;
+  /** 等待新输出或退出的 poll */
+  waiters: Set<() => void>;
+}
+
+export class ProcessManager {
+  private processes: Map<string, ManagedProcess> = new Map();
+  private maxBufferBytes: number;
+  private exitHookInstalled = false;
+
+  /**
+   * @param maxBufferBytes 每个输出流未读部分的上限
+   */
+  constructor(maxBufferBytes = 1000000) {
+    this.maxBufferBytes = maxBufferBytes;
+  }
+
+  /**
+   * 启动后台进程
+   */
+  start(options: StartProcessOptions): ProcessInfo {
+    this.installExitHook();
+
+    // 独立进程组，终止时连同 shell 启动的子进程一起结束
+    const child = spawn(options.file, options.args ?? [], {
+      cwd: options.cwd,
+      env: options.env,
+      shell: options.shell,
+      detached: process.platform !== 'win32',
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    const id = `proc_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const entry: ManagedProcess = {
+      info: {
+        id,
+        command: options.command,
+        pid: child.pid,
+        status: 'running',
+        exitCode: null,
+        signal: null,
+        runId: options.runId,
+        sessionId: options.sessionId,
+        keepAlive: options.keepAlive ?? false,
+        startedAt: Date.now(),
+      },
+      child,
+      output: { stdout: '', stderr: '' },
+      truncated: false,
+      killRequested: false,
+      waiters: new Set(),
+    };
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      child[stream]?.setEncoding('utf8');
+      child[stream]?.on('data', (chunk: string) => {
+        this.append(entry, stream, chunk);
+        options.onOutput?.(stream, chunk);
+      });
+    }
+
+    // 写入已退出进程的 stdin 时的 EPIPE 不应导致宿主崩溃
+    child.stdin?.on('error', () => {});
+
+    child.on('error', (error) => {
+      entry.info.error = error.message;
+      this.finish(entry, null, null);
+    });
+    child.on('close', (code, signal) => this.finish(entry, code, signal));
+
+    this.processes.set(id, entry);
+    return { ...entry.info };
+  }
+
+  /**
+   * 读取上次轮询之后的新输出
+   *
+   * @param waitMs 没有新输出且进程仍在运行时最多等待的毫秒数
+   */
+  async poll(id: string, options: { waitMs?: number; signal?: AbortSignal } = {}): Promise<ProcessOutput> {
+    const entry = this.getEntry(id);
+
+    if (options.waitMs && entry.info.status === 'running' && !entry.output.stdout && !entry.output.stderr) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          entry.waiters.delete(done);
+          options.signal?.removeEventListener('abort', done);
+          resolve();
+        };
+        const timer = setTimeout(done, options.waitMs);
+        entry.waiters.add(done);
+        options.signal?.addEventListener('abort', done, { once: true });
+      });
+    }
+
+    const result: ProcessOutput = {
+      ...entry.info,
+      stdout: entry.output.stdout,
+      stderr: entry.output.stderr,
+      truncated: entry.truncated,
+    };
+    entry.output = { stdout: '', stderr: '' };
+    entry.truncated = false;
+    return result;
+  }
+
+  /**
+   * 写入 stdin
+   *
+   * @param end 写入后关闭 stdin
+   */
+  write(id: string, input: string, end = false): ProcessInfo {
+    const entry = this.getEntry(id);
+    const stdin = entry.child.stdin;
+    if (entry.info.status !== 'running' || !stdin || stdin.writableEnded) {
+      throw new Error(`Process ${id} is not accepting input`);
+    }
+
+    if (end) {
+      stdin.end(input);
+    } else {
+      stdin.write(input);
+    }
+    return { ...entry.info };
+  }
+
+  /**
+   * 终止进程（整个进程组）
+   */
+  kill(id: string, signal: NodeJS.Signals = 'SIGTERM'): ProcessInfo {
+    const entry = this.getEntry(id);
+    this.terminate(entry, signal);
+    return { ...entry.info };
+  }
+
+  /**
+   * 获取进程信息
+   */
+  get(id: string): ProcessInfo | undefined {
+    const entry = this.processes.get(id);
+    return entry ? { ...entry.info } : undefined;
+  }
+
+  /**
+   * 列出进程
+   */
+  list(sessionId?: string): ProcessInfo[] {
+    return Array.from(this.processes.values())
+      .map((entry) => ({ ...entry.info }))
+      .filter((info) => !sessionId || info.sessionId === sessionId);
+  }
+
+  /**
+   * 释放运行或会话的进程：终止仍在运行的进程并移除记录
+   *
+   * 按运行释放时跳过 keepAlive 的进程
+   */
+  release(scope: ProcessScope = {}): void {
+    for (const [id, entry] of this.processes) {
+      const { info } = entry;
+      if (scope.sessionId && info.sessionId !== scope.sessionId) continue;
+      if (scope.runId && (info.runId !== scope.runId || info.keepAlive)) continue;
+
+      this.terminate(entry, 'SIGTERM');
+      this.processes.delete(id);
+    }
+  }
+
+  private getEntry(id: string): ManagedProcess {
+    const entry = this.processes.get(id);
+    if (!entry) {
+      throw new Error(`Process not found: ${id}`);
+    }
+    return entry;
+  }
+
+  private append(entry: ManagedProcess, stream: ProcessStream, chunk: string): void {
+    let buffer = entry.output[stream] + chunk;
+    if (buffer.length > this.maxBufferBytes) {
+      buffer = buffer.slice(buffer.length - this.maxBufferBytes);
+      entry.truncated = true;
+    }
+    entry.output[stream] = buffer;
+    this.notify(entry);
+  }
+
+  private finish(entry: ManagedProcess, code: number | null, signal: NodeJS.Signals | null): void {
+    if (entry.info.status !== 'running') return;
+
+    entry.info.status = entry.killRequested || signal ? 'killed' : 'exited';
+    entry.info.exitCode = code;
+    entry.info.signal = signal;
+    entry.info.endedAt = Date.now();
+    this.notify(entry);
+  }
+
+  private notify(entry: ManagedProcess): void {
+    for (const waiter of entry.waiters) {
+      waiter();
+    }
+  }
+
+  private terminate(entry: ManagedProcess, signal: NodeJS.Signals): void {
+    if (entry.info.status !== 'running' || !entry.child.pid) return;
+
+    entry.killRequested = true;
+    killProcessGroup(entry.child, signal);
+  }
+
+  /**
+   * 后台进程在独立进程组中，宿主退出时不会随之结束，需要显式终止
+   */
+  private installExitHook(): void {
+    if (this.exitHookInstalled) return;
+    this.exitHookInstalled = true;
+    process.once('exit', () => this.release());
+  }
+}
+
+/**
+ * 终止以 detached 启动的子进程及其进程组
+ */
+export function killProcessGroup(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+  if (!child.pid) return;
+  try {
+    if (process.platform === 'win32') {
+      child.kill(signal);
+    } else {
+      process.kill(-child.pid, signal);
+    }
+  } catch {
+    // 进程组已不存在
+    child.kill(signal);
+  }
+}
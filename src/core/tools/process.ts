@@ -0,0 +1,108 @@
+/**
+ * Process Tool - 后台进程工具
+ *
+ * 管理 exec 工具以 background 方式启动的进程：列出、轮询新输出、写入 stdin、终止
+ * 只能访问当前会话启动的进程
+ */
+
+import { BaseTool, type ToolExecutionContext } from './base.js';
+import type { ProcessInfo, ProcessManager } from './process-manager.js';
+
+export class ProcessTool extends BaseTool {
+  name = 'process';
+  description = 'Manage background processes started by the exec tool: list, poll new output, write to stdin, kill';
+  parameters = {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['list', 'poll', 'write', 'kill'],
+        description: 'Action to perform',
+      },
+      processId: {
+        type: 'string',
+        description: 'Process ID returned by exec with background: true (poll, write, kill)',
+      },
+      waitMs: {
+        type: 'number',
+        description: 'For poll: wait up to this many milliseconds for new output',
+      },
+      input: {
+        type: 'string',
+        description: 'For write: text to write to stdin',
+      },
+      end: {
+        type: 'boolean',
+        description: 'For write: close stdin after writing',
+      },
+      signal: {
+        type: 'string',
+        enum: ['SIGTERM', 'SIGINT', 'SIGHUP', 'SIGKILL'],
+        description: 'For kill: signal to send (default SIGTERM)',
+      },
+    },
+    required: ['action'],
+  };
+
+  concurrencySafe = (args: Record<string, unknown>) => args.action === 'list';
+
+  private processes: ProcessManager;
+
+  constructor(processes: ProcessManager) {
+    super();
+    this.processes = processes;
+  }
+
+  async execute(
+    _callId: string,
+    args: Record<string, unknown>,
+    context?: ToolExecutionContext
+  ): Promise<unknown> {
+    args = this.validateArgs(args);
+
+    const action = args.action as string;
+
+    if (action === 'list') {
+      return { success: true, processes: this.processes.list(context?.sessionId) };
+    }
+
+    if (typeof args.processId !== 'string') {
+      throw new Error(`processId is required for ${action}`);
+    }
+    const id = this.checkAccess(args.processId, context).id;
+
+    switch (action) {
+      case 'poll':
+        return {
+          success: true,
+          ...(await this.processes.poll(id, { waitMs: args.waitMs as number | undefined, signal: context?.signal })),
+        };
+
+      case 'write':
+        if (typeof args.input !== 'string') {
+          throw new Error('input is required for write');
+        }
+        return { success: true, ...this.processes.write(id, args.input, args.end === true) };
+
+      case 'kill':
+        return {
+          success: true,
+          ...this.processes.kill(id, (args.signal as NodeJS.Signals | undefined) ?? 'SIGTERM'),
+        };
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+  }
+
+  /**
+   * 进程必须属于当前会话
+   */
+  private checkAccess(id: string, context?: ToolExecutionContext): ProcessInfo {
+    const info = this.processes.get(id);
+    if (!info || (context?.sessionId && info.sessionId !== context.sessionId)) {
+      throw new Error(`Process not found: ${id}`);
+    }
+    return info;
+  }
+}
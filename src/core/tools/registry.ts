@@ -1,12 +1,11 @@
 /**
  * Tool Registry - 工具注册表
  * 
- * 集成 OpenClaw 的工具系统设计
- * 支持工具发现、权限控制、执行管理
+ * 支持工具发现、启用控制（调用权限由 PolicyEngine 负责）
  */
 
 import type { ToolConfig } from '../../types/index.js';
-import type { AgentTool } from './base.js';
+import { toToolParameters, type AgentTool, type ToolReleaseScope } from './base.js';
 
 export class ToolRegistry {
   private tools: Map<string, AgentTool> = new Map();
@@ -41,6 +40,13 @@ export class ToolRegistry {
     return tool;
   }
 
+  /**
+   * 获取工具配置
+   */
+  getConfig(name: string): ToolConfig | undefined {
+    return this.configs.get(name);
+  }
+
   /**
    * 获取所有可用工具
    */
@@ -54,7 +60,7 @@ export class ToolRegistry {
       available.push({
         name,
         description: tool.description,
-        parameters: tool.parameters,
+        parameters: toToolParameters(tool.parameters),
       });
     }
 
@@ -62,23 +68,15 @@ export class ToolRegistry {
   }
 
   /**
-   * 检查工具权限
+   * 释放工具持有的运行或会话资源，范围为空时释放全部
    */
-  checkPermission(toolName: string, context?: Record<string, unknown>): boolean {
-    const config = this.configs.get(toolName);
-    if (!config) return true;
-
-    // 检查 allowlist
-    if (config.allowlist && config.allowlist.length > 0) {
-      // 实现权限检查逻辑
-      return true; // 简化实现
-    }
-
-    // 检查 denylist
-    if (config.denylist && config.denylist.includes(toolName)) {
-      return false;
+  async release(scope: ToolReleaseScope = {}): Promise<void> {
+    for (const tool of this.tools.values()) {
+      try {
+        await tool.release?.(scope);
+      } catch (error) {
+        console.error(`Error releasing tool ${tool.name}:`, error);
+      }
     }
-
-    return true;
   }
 }
@@ -0,0 +1,58 @@
+import { spawnSync } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { buildSandboxCommand, resolveSandboxCwd, supportsNamespaces } from './sandbox.js';
+
+const workspace = mkdtempSync(join(tmpdir(), 'sandbox-ws-'));
+const outside = mkdtempSync(join(tmpdir(), 'sandbox-outside-'));
+
+afterAll(() => {
+  rmSync(workspace, { recursive: true, force: true });
+  rmSync(outside, { recursive: true, force: true });
+});
+
+function run(command: string) {
+  const sandboxed = buildSandboxCommand(command, undefined, { workspace, namespaces: true });
+  const result = spawnSync(sandboxed.file, sandboxed.args, {
+    cwd: sandboxed.cwd,
+    env: sandboxed.env,
+    encoding: 'utf-8',
+    timeout: 20000,
+  });
+  return { status: result.status, output: `${result.stdout}${result.stderr}` };
+}
+
+describe('resolveSandboxCwd', () => {
+  it('rejects directories outside the workspace', () => {
+    expect(resolveSandboxCwd('/data/ws', 'sub')).toBe('/data/ws/sub');
+    expect(() => resolveSandboxCwd('/data/ws', '../ws-evil')).toThrow(/inside the workspace/);
+    expect(() => resolveSandboxCwd('/data/ws', '/etc')).toThrow(/inside the workspace/);
+  });
+});
+
+describe.skipIf(!supportsNamespaces())('namespace sandbox', () => {
+  it('allows writes inside the workspace', () => {
+    expect(run('echo hello > note.txt && cat note.txt')).toEqual({ status: 0, output: 'hello\n' });
+  });
+
+  it('keeps every other mount read-only', () => {
+    for (const dir of [outside, '/dev/shm']) {
+      const result = run(`touch ${dir}/escape`);
+      expect(result.status).not.toBe(0);
+      expect(result.output).toMatch(/Read-only file system/);
+    }
+  });
+
+  it('cannot remount the root file system writable', () => {
+    const result = run(`mount -o remount,bind,rw / && touch ${outside}/escape`);
+    expect(result.status).not.toBe(0);
+    expect(result.output).toMatch(/permission denied/i);
+  });
+
+  it('runs the command without capabilities', () => {
+    const result = run('grep CapEff /proc/self/status');
+    expect(result.output).toMatch(/CapEff:\s+0+\n/);
+  });
+});
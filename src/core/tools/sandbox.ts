@@ -0,0 +1,182 @@
+/**
+ * Exec Sandbox - 命令执行沙箱（Linux）
+ *
+ * - 工作目录固定在工作区内，环境变量按白名单清理
+ * - 通过 prlimit（没有时用 ulimit）限制 CPU 时间、内存和写入文件大小
+ * - 可用时通过 unshare 进入 user + mount (+ net) 命名空间：除工作区外的所有挂载点只读，默认无网络；
+ *   挂载完成后丢弃全部 capability 再执行命令，命令无法重新挂载为可写
+ * - 无法创建命名空间（非 Linux 或未开放非特权 user namespace）时回退为 rlimit 模式
+ */
+
+import { spawnSync } from 'child_process';
+import { tmpdir } from 'os';
+import { isAbsolute, relative, resolve, sep } from 'path';
+import type { SandboxConfig } from '../../types/index.js';
+
+export type SandboxMode = 'namespace' | 'rlimit';
+
+export interface SandboxCommand {
+  file: string;
+  args: string[];
+  cwd: string;
+  env: Record<string, string>;
+  mode: SandboxMode;
+  network: boolean;
+}
+
+const DEFAULT_ENV_ALLOWLIST = ['PATH', 'LANG', 'LC_ALL', 'TERM', 'TZ'];
+/** 名称像密钥的变量即使在白名单中也不传递 */
+const SECRET_ENV_PATTERN = /KEY|TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIAL|AUTH/i;
+
+/**
+ * 命名空间内的初始化脚本，参数依次为工作区、工作目录、命令：
+ * 工作区绑定为独立挂载，其余挂载点逐个重新挂载为只读，最后丢弃 capability 并执行命令
+ */
+const NAMESPACE_SCRIPT = [
+  'ws=$(cd "$1" && pwd -P) &&',
+  'mount --make-rslave / &&',
+  'mount --bind "$ws" "$ws" &&',
+  'while read -r _ _ _ _ target _; do',
+  // mountinfo 中的空格等字符以八进制转义
+  '  target=$(printf "%b" "$target")',
+  '  [ "$target" = "$ws" ] && continue',
+  '  mount -o remount,bind,ro "$target" || exit 1',
+  'done < /proc/self/mountinfo &&',
+  'cd "$2" &&',
+  'exec setpriv --inh-caps=-all --bounding-set=-all --no-new-privs -- /bin/sh -c "$3"',
+].join('\n');
+
+let namespaceSupport: boolean | undefined;
+let prlimitAvailable: boolean | undefined;
+let fallbackWarned = false;
+
+/**
+ * 构建沙箱中执行的命令
+ */
+export function buildSandboxCommand(
+  command: string,
+  requestedCwd: string | undefined,
+  config: SandboxConfig
+): SandboxCommand {
+  const workspace = resolve(config.workspace ?? process.cwd());
+  const cwd = resolveSandboxCwd(workspace, requestedCwd);
+  const env = scrubEnv(config, workspace);
+  const network = config.network ?? false;
+
+  const useNamespaces = config.namespaces ?? 'auto';
+  let mode: SandboxMode = 'rlimit';
+  if (useNamespaces !== false) {
+    if (supportsNamespaces()) {
+      mode = 'namespace';
+    } else if (useNamespaces === true) {
+      throw new Error('Sandbox requires Linux user namespaces, which are not available on this host');
+    } else if (!fallbackWarned) {
+      fallbackWarned = true;
+      console.warn('Linux user namespaces unavailable, exec sandbox falls back to rlimit mode');
+    }
+  }
+
+  const inner =
+    mode === 'namespace'
+      ? namespaceCommand(workspace, cwd, command, network)
+      : ['/bin/sh', '-c', command];
+
+  const [file, ...args] = withLimits(inner, config.limits ?? {});
+  return { file, args, cwd, env, mode, network: mode === 'namespace' ? network : true };
+}
+
+function namespaceCommand(workspace: string, cwd: string, command: string, network: boolean): string[] {
+  return [
+    'unshare',
+    '--user',
+    '--map-root-user',
+    '--mount',
+    ...(network ? [] : ['--net']),
+    '--kill-child',
+    '--',
+    '/bin/sh',
+    '-c',
+    NAMESPACE_SCRIPT,
+    'sandbox',
+    workspace,
+    cwd,
+    command,
+  ];
+}
+
+/**
+ * 解析工作目录，必须位于工作区内
+ */
+export function resolveSandboxCwd(workspace: string, requested: string | undefined): string {
+  const cwd = resolve(workspace, requested ?? '.');
+  const rel = relative(workspace, cwd);
+  if (rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new Error(`Working directory must be inside the workspace: ${requested}`);
+  }
+  return cwd;
+}
+
+/**
+ * 清理环境变量
+ */
+function scrubEnv(config: SandboxConfig, workspace: string): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const name of config.envAllowlist ?? DEFAULT_ENV_ALLOWLIST) {
+    const value = process.env[name];
+    if (value !== undefined && !SECRET_ENV_PATTERN.test(name)) {
+      env[name] = value;
+    }
+  }
+
+  return { ...env, HOME: workspace, ...config.env };
+}
+
+/**
+ * 包装资源限制：优先 prlimit（字节单位），否则使用 shell 的 ulimit（CPU 与内存）
+ */
+function withLimits(command: string[], limits: NonNullable<SandboxConfig['limits']>): string[] {
+  const cpu = limits.cpuSeconds ?? 60;
+  const memory = (limits.memoryMb ?? 1024) * 1024 * 1024;
+  const fileSize = (limits.fileSizeMb ?? 100) * 1024 * 1024;
+
+  if (hasPrlimit()) {
+    return ['prlimit', `--cpu=${cpu}`, `--as=${memory}`, `--fsize=${fileSize}`, '--', ...command];
+  }
+
+  // ulimit -v 以 KB 为单位；-f 的单位因 shell 而异，回退模式下不限制
+  return [
+    '/bin/sh',
+    '-c',
+    `ulimit -t ${cpu} && ulimit -v ${Math.floor(memory / 1024)} && exec "$@"`,
+    'sandbox',
+    ...command,
+  ];
+}
+
+/**
+ * 检测能否创建非特权 user + mount 命名空间、只读重挂载并丢弃 capability（结果缓存）
+ */
+export function supportsNamespaces(): boolean {
+  if (namespaceSupport === undefined) {
+    const dir = tmpdir();
+    const [file, ...args] = namespaceCommand(dir, dir, 'true', false);
+    namespaceSupport = process.platform === 'linux' && probe(file, args);
+  }
+  return namespaceSupport;
+}
+
+function hasPrlimit(): boolean {
+  if (prlimitAvailable === undefined) {
+    prlimitAvailable = process.platform === 'linux' && probe('prlimit', ['--cpu=1', '--', '/bin/true']);
+  }
+  return prlimitAvailable;
+}
+
+function probe(file: string, args: string[]): boolean {
+  try {
+    return spawnSync(file, args, { stdio: 'ignore', timeout: 5000 }).status === 0;
+  } catch {
+    return false;
+  }
+}
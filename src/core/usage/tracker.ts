@@ -0,0 +1,204 @@
+/**
+ * Usage Tracker - 用量与费用统计
+ *
+ * - 按运行、会话、每日（UTC）累计 token 用量
+ * - 根据价格表估算费用
+ * - 会话 / 每日预算超限时阻止继续调用模型
+ * - 每日汇总持久化到 usage/daily.json，运行记录追加到 usage/runs.jsonl
+ */
+
+import type { AgentRun, BudgetConfig, ModelPricing, Session, UsageTotals } from '../../types/index.js';
+import { promises as fs } from 'fs';
+import { existsSync } from 'fs';
+import { join } from 'path';
+
+export interface UsageDelta {
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens?: number;
+}
+
+export class BudgetExceededError extends Error {
+  readonly scope: 'session' | 'day';
+  readonly limit: number;
+  readonly spent: number;
+
+  constructor(scope: 'session' | 'day', limit: number, spent: number) {
+    super(`${scope === 'session' ? 'Session' : 'Daily'} budget exceeded: $${spent.toFixed(4)} of $${limit.toFixed(4)}`);
+    this.name = 'BudgetExceededError';
+    this.scope = scope;
+    this.limit = limit;
+    this.spent = spent;
+  }
+}
+
+export function emptyUsage(): UsageTotals {
+  return { inputTokens: 0, cachedTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+export class UsageTracker {
+  private usageDir: string;
+  private pricing: Record<string, ModelPricing>;
+  private budget: BudgetConfig;
+  private daily: Record<string, UsageTotals> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(workspaceRoot: string, options: { pricing?: Record<string, ModelPricing>; budget?: BudgetConfig } = {}) {
+    this.usageDir = join(workspaceRoot, 'usage');
+    this.pricing = options.pricing ?? {};
+    this.budget = options.budget ?? {};
+  }
+
+  /**
+   * 估算费用（美元）
+   */
+  estimateCost(model: string, usage: UsageDelta): number {
+    const price = this.findPricing(model);
+    if (!price) return 0;
+
+    const cached = usage.cachedTokens ?? 0;
+    const uncached = Math.max(0, usage.inputTokens - cached);
+
+    return (
+      (uncached * price.input + cached * (price.cachedInput ?? price.input) + usage.outputTokens * price.output) /
+      1_000_000
+    );
+  }
+
+  /**
+   * 记录一次模型调用的用量（累加到运行、会话和当日汇总）
+   */
+  async record(model: string, usage: UsageDelta, target: { run?: AgentRun; session?: Session }): Promise<UsageTotals> {
+    const delta: UsageTotals = {
+      inputTokens: usage.inputTokens,
+      cachedTokens: usage.cachedTokens ?? 0,
+      outputTokens: usage.outputTokens,
+      cost: this.estimateCost(model, usage),
+    };
+
+    if (target.run) {
+      target.run.usage = addUsage(target.run.usage ?? emptyUsage(), delta);
+    }
+    if (target.session) {
+      target.session.usage = addUsage(target.session.usage ?? emptyUsage(), delta);
+    }
+
+    const daily = await this.loadDaily();
+    const today = dayKey();
+    daily[today] = addUsage(daily[today] ?? emptyUsage(), delta);
+    await this.persist(() => this.writeDaily());
+
+    return delta;
+  }
+
+  /**
+   * 检查预算：加上预计费用后超出会话或每日上限时抛出 BudgetExceededError
+   */
+  async checkBudget(session: Session, estimatedCost: number = 0): Promise<void> {
+    if (this.budget.perSessionUsd !== undefined) {
+      const spent = session.usage?.cost ?? 0;
+      if (spent + estimatedCost > this.budget.perSessionUsd) {
+        throw new BudgetExceededError('session', this.budget.perSessionUsd, spent);
+      }
+    }
+
+    if (this.budget.perDayUsd !== undefined) {
+      const spent = (await this.getDailyUsage()).cost;
+      if (spent + estimatedCost > this.budget.perDayUsd) {
+        throw new BudgetExceededError('day', this.budget.perDayUsd, spent);
+      }
+    }
+  }
+
+  /**
+   * 获取某日（UTC，YYYY-MM-DD）的用量，默认今天
+   */
+  async getDailyUsage(date: string = dayKey()): Promise<UsageTotals> {
+    const daily = await this.loadDaily();
+    return daily[date] ?? emptyUsage();
+  }
+
+  /**
+   * 持久化运行记录
+   */
+  async recordRun(run: AgentRun): Promise<void> {
+    if (!run.usage) return;
+
+    const line =
+      JSON.stringify({
+        runId: run.id,
+        sessionId: run.sessionId,
+        model: run.model,
+        status: run.status,
+        startedAt: run.startedAt,
+        endedAt: run.endedAt,
+        usage: run.usage,
+      }) + '\n';
+
+    await this.persist(() => fs.appendFile(join(this.usageDir, 'runs.jsonl'), line, 'utf-8'));
+  }
+
+  /**
+   * 查找价格：优先 provider/model，其次模型名
+   */
+  private findPricing(model: string): ModelPricing | undefined {
+    return this.pricing[model] ?? this.pricing[model.slice(model.indexOf('/') + 1)];
+  }
+
+  /**
+   * 加载每日汇总
+   */
+  private async loadDaily(): Promise<Record<string, UsageTotals>> {
+    if (this.daily) return this.daily;
+
+    const dailyPath = join(this.usageDir, 'daily.json');
+    let loaded: Record<string, UsageTotals> = {};
+    if (existsSync(dailyPath)) {
+      try {
+        loaded = JSON.parse(await fs.readFile(dailyPath, 'utf-8')) as Record<string, UsageTotals>;
+      } catch (error) {
+        // 忽略损坏的用量文件
+        console.warn('Failed to load daily usage:', error);
+      }
+    }
+
+    // 并发加载时保留先完成的结果
+    this.daily = this.daily ?? loaded;
+    return this.daily;
+  }
+
+  private async writeDaily(): Promise<void> {
+    await fs.writeFile(join(this.usageDir, 'daily.json'), JSON.stringify(this.daily, null, 2), 'utf-8');
+  }
+
+  /**
+   * 串行化写入，避免并发运行互相覆盖
+   */
+  private persist(write: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(this.usageDir, { recursive: true });
+        await write();
+      })
+      .catch((error) => {
+        console.warn('Failed to persist usage:', error);
+      });
+    return this.writeQueue;
+  }
+}
+
+/**
+ * 累加用量
+ */
+export function addUsage(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    cachedTokens: a.cachedTokens + b.cachedTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cost: a.cost + b.cost,
+  };
+}
+
+function dayKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, countChanges, createPatch, splitLines } from './diff.js';
+
+const lines = (...items: string[]) => items.map((item) => `${item}\n`).join('');
+
+/** 确定性的伪随机数，失败时可复现 */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+}
+
+function mutate(text: string, next: () => number): string {
+  const result: string[] = [];
+  for (const line of splitLines(text)) {
+    const roll = next();
+    if (roll < 0.1) continue;
+    if (roll < 0.2) result.push(`changed ${Math.floor(next() * 1000)}\n`);
+    else result.push(line);
+    if (next() < 0.1) result.push(`inserted ${Math.floor(next() * 1000)}\n`);
+  }
+  return result.join('');
+}
+
+describe('createPatch', () => {
+  it('returns an empty string when nothing changed', () => {
+    expect(createPatch('a.txt', lines('a', 'b'), lines('a', 'b'))).toBe('');
+  });
+
+  it('finds the shortest edit script', () => {
+    // Myers 论文中的例子，最短编辑距离为 5
+    const patch = createPatch('a.txt', lines(...'ABCABBA'), lines(...'CBABAC'));
+    const { additions, deletions } = countChanges(patch);
+    expect(additions + deletions).toBe(5);
+  });
+
+  it('formats hunks with context and missing trailing newlines', () => {
+    const patch = createPatch('a.txt', 'one\ntwo\nthree', 'one\n2\nthree');
+    expect(patch).toBe(
+      [
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -1,3 +1,3 @@',
+        ' one',
+        '-two',
+        '+2',
+        ' three',
+        '\\ No newline at end of file',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('round-trips through applyPatch', () => {
+    const next = random(42);
+    for (let round = 0; round < 50; round++) {
+      const size = Math.floor(next() * 200);
+      const oldText = Array.from({ length: size }, () => `line ${Math.floor(next() * 20)}\n`).join('');
+      const newText = mutate(oldText, next);
+      const patch = createPatch('a.txt', oldText, newText);
+      expect(patch === '' ? oldText : applyPatch(oldText, patch).text).toBe(newText);
+    }
+  });
+
+  it('handles large rewrites without running out of memory', () => {
+    const count = 100000;
+    const oldText = Array.from({ length: count }, (_, i) => `old ${i}\n`).join('');
+    const newText = Array.from({ length: count }, (_, i) => (i % 3 === 0 ? `old ${i}\n` : `new ${i}\n`)).join('');
+
+    const before = process.memoryUsage().heapUsed;
+    const started = Date.now();
+    const patch = createPatch('big.txt', oldText, newText);
+    expect(Date.now() - started).toBeLessThan(10000);
+    expect(process.memoryUsage().heapUsed - before).toBeLessThan(200 * 1024 * 1024);
+
+    expect(applyPatch(oldText, patch).text).toBe(newText);
+  });
+});
+
+describe('applyPatch', () => {
+  it('finds hunks that moved', () => {
+    const patch = createPatch('a.txt', lines('a', 'b', 'c'), lines('a', 'B', 'c'));
+    const result = applyPatch(lines('x', 'y', 'a', 'b', 'c'), patch);
+    expect(result).toEqual({ text: lines('x', 'y', 'a', 'B', 'c'), additions: 1, deletions: 1 });
+  });
+
+  it('rejects hunks whose context does not match', () => {
+    const patch = createPatch('a.txt', lines('a', 'b', 'c'), lines('a', 'B', 'c'));
+    expect(() => applyPatch(lines('a', 'x', 'c'), patch)).toThrow(/does not apply/);
+  });
+
+  it('reads hunk lines that look like file headers', () => {
+    const oldText = lines('-- x', 'keep');
+    const newText = lines('++ y', 'keep');
+    const patch = createPatch('a.txt', oldText, newText);
+    expect(patch).toContain('\n--- x\n+++ y\n');
+    expect(applyPatch(oldText, patch)).toEqual({ text: newText, additions: 1, deletions: 1 });
+  });
+
+  it('rejects hunks that do not match their line counts', () => {
+    const patch = createPatch('a.txt', lines('a', 'b', 'c'), lines('a', 'B', 'c'));
+    expect(() => applyPatch(lines('a', 'b', 'c'), patch.replace('@@ -1,3', '@@ -1,4'))).toThrow(/shorter/);
+    expect(() => applyPatch(lines('a', 'b', 'c'), `${patch}+extra\n`)).toThrow(/Invalid patch line/);
+  });
+
+  it('rejects patches for several files', () => {
+    const patch = createPatch('a.txt', lines('a'), lines('b')) + createPatch('b.txt', lines('a'), lines('b'));
+    expect(() => applyPatch(lines('a'), patch)).toThrow(/single file/);
+  });
+});
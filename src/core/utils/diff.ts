@@ -0,0 +1,370 @@
+/**
+ * Diff - 行级差异与统一 diff
+ *
+ * - createPatch：按行比较（线性空间的 Myers 算法）生成统一 diff；编辑距离过大的部分整体作为删除和插入，
+ *   避免大文件改写时耗尽内存和时间
+ * - applyPatch：将单个文件的统一 diff 应用到文本；上下文不在原位置时在附近查找，找不到时报错
+ * - 行按 \n 切分并保留行尾，末行没有换行时输出 `\ No newline at end of file`
+ */
+
+export interface PatchResult {
+  text: string;
+  additions: number;
+  deletions: number;
+}
+
+interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+interface HunkLine {
+  type: ' ' | '-' | '+';
+  /** 不含行尾 */
+  text: string;
+  /** 是否以换行结尾 */
+  eol: boolean;
+}
+
+interface Hunk {
+  header: string;
+  oldStart: number;
+  lines: HunkLine[];
+}
+
+/** 超过此编辑距离（增删行数之和）的部分不再求最短差异，整体作为删除和插入 */
+const MAX_EDIT_DISTANCE = 2000;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * 切分为行，每行保留行尾的 \n
+ */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * 生成统一 diff，没有变化时返回空字符串
+ */
+export function createPatch(path: string, oldText: string, newText: string, context = 3): string {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  if (ops.every((op) => op.type === 'equal')) return '';
+
+  const output = [`--- a/${path}`, `+++ b/${path}`];
+
+  // 变化位置（ops 下标），间隔不超过两倍上下文的变化合并为一个 hunk
+  const changes = ops.flatMap((op, index) => (op.type === 'equal' ? [] : [index]));
+  // 已扫描到的 ops 下标及其之前的新旧行数
+  const position = { index: 0, oldLine: 0, newLine: 0 };
+  let start = 0;
+  while (start < changes.length) {
+    let end = start;
+    while (end + 1 < changes.length && changes[end + 1] - changes[end] <= context * 2 + 1) end++;
+
+    const from = Math.max(0, changes[start] - context);
+    const to = Math.min(ops.length, changes[end] + context + 1);
+    for (; position.index < from; position.index++) {
+      if (ops[position.index].type !== 'insert') position.oldLine++;
+      if (ops[position.index].type !== 'delete') position.newLine++;
+    }
+    // 大文件改写时 hunk 可能很长，逐行追加以免超出参数个数上限
+    for (const line of formatHunk(ops, from, to, position.oldLine, position.newLine)) output.push(line);
+    start = end + 1;
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * 应用统一 diff
+ *
+ * @throws Error 格式错误或上下文不匹配时
+ */
+export function applyPatch(text: string, patch: string): PatchResult {
+  const hunks = parsePatch(patch);
+  if (hunks.length === 0) {
+    throw new Error('Patch contains no hunks');
+  }
+
+  const source = splitLines(text);
+  const result: string[] = [];
+  let cursor = 0;
+  let offset = 0;
+  let additions = 0;
+  let deletions = 0;
+
+  hunks.forEach((hunk, index) => {
+    const old = hunk.lines.filter((line) => line.type !== '+');
+    // 纯插入的 hunk（旧行数为 0）的起始行表示插入到该行之后
+    const anchor = old.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = Math.max(anchor + offset, cursor);
+    const position = findHunk(source, old, expected, cursor);
+    if (position === -1) {
+      throw new Error(`Hunk ${index + 1} does not apply (${hunk.header}): context lines not found`);
+    }
+
+    for (let i = cursor; i < position; i++) result.push(source[i]);
+    let sourceIndex = position;
+    for (const line of hunk.lines) {
+      if (line.type === ' ') {
+        result.push(source[sourceIndex++]);
+      } else if (line.type === '-') {
+        sourceIndex++;
+        deletions++;
+      } else {
+        result.push(line.eol ? `${line.text}\n` : line.text);
+        additions++;
+      }
+    }
+
+    offset = position - anchor;
+    cursor = sourceIndex;
+  });
+
+  for (let i = cursor; i < source.length; i++) result.push(source[i]);
+
+  // 原末行没有换行而其后追加了新行时补上换行
+  const joined = result.map((line, i) => (i < result.length - 1 && !line.endsWith('\n') ? `${line}\n` : line));
+  return { text: joined.join(''), additions, deletions };
+}
+
+/**
+ * 统计 diff 的增删行数
+ */
+export function countChanges(patch: string): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++')) additions++;
+    if (line.startsWith('-') && !line.startsWith('---')) deletions++;
+  }
+  return { additions, deletions };
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, ops);
+  return ops;
+}
+
+/**
+ * 比较 a[aStart, aEnd) 与 b[bStart, bEnd)：去掉相同的首尾后在中间蛇处一分为二递归
+ */
+function diffRange(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  ops: DiffOp[]
+): void {
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    ops.push({ type: 'equal', line: a[aStart] });
+    aStart++;
+    bStart++;
+  }
+  const suffixEnd = aEnd;
+  while (aEnd > aStart && bEnd > bStart && a[aEnd - 1] === b[bEnd - 1]) {
+    aEnd--;
+    bEnd--;
+  }
+
+  const split = aStart < aEnd && bStart < bEnd ? middleSnake(a, aStart, aEnd, b, bStart, bEnd) : undefined;
+  if (split) {
+    diffRange(a, aStart, split[0], b, bStart, split[1], ops);
+    diffRange(a, split[0], aEnd, b, split[1], bEnd, ops);
+  } else {
+    // 一侧为空、没有相同行或超过编辑距离上限：整体删除再插入
+    for (let i = aStart; i < aEnd; i++) ops.push({ type: 'delete', line: a[i] });
+    for (let i = bStart; i < bEnd; i++) ops.push({ type: 'insert', line: b[i] });
+  }
+
+  for (let i = aEnd; i < suffixEnd; i++) ops.push({ type: 'equal', line: a[i] });
+}
+
+/**
+ * 线性空间 Myers 算法：从两端同时搜索，返回最短编辑路径中间蛇的分割点
+ *
+ * 没有相同行或编辑距离超过 MAX_EDIT_DISTANCE 时返回 undefined
+ */
+function middleSnake(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number
+): [number, number] | undefined {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const limit = Math.min(maxD, Math.ceil(MAX_EDIT_DISTANCE / 2));
+  const offset = maxD;
+  const forward = new Int32Array(2 * maxD + 2).fill(-1);
+  const backward = new Int32Array(2 * maxD + 2).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+
+  const delta = n - m;
+  // 差值为奇数时在正向搜索中检查重叠，否则在反向搜索中检查
+  const checkForward = delta % 2 !== 0;
+  // 越过边界的对角线不再搜索
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d < limit; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const index = offset + k;
+      let x =
+        k === -d || (k !== d && forward[index - 1] < forward[index + 1]) ? forward[index + 1] : forward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[index] = x;
+
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (checkForward) {
+        const other = offset + delta - k;
+        if (other >= 0 && other < backward.length && backward[other] !== -1 && x >= n - backward[other]) {
+          return [aStart + x, bStart + y];
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      const index = offset + k;
+      let x =
+        k === -d || (k !== d && backward[index - 1] < backward[index + 1])
+          ? backward[index + 1]
+          : backward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[index] = x;
+
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!checkForward) {
+        const other = offset + delta - k;
+        if (other >= 0 && other < forward.length && forward[other] !== -1 && forward[other] >= n - x) {
+          const forwardX = forward[other];
+          return [aStart + forwardX, bStart + forwardX - (other - offset)];
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function formatHunk(ops: DiffOp[], from: number, to: number, oldLine: number, newLine: number): string[] {
+  const lines: string[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const op of ops.slice(from, to)) {
+    const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+    if (op.type !== 'insert') oldCount++;
+    if (op.type !== 'delete') newCount++;
+
+    lines.push(`${prefix}${op.line.replace(/\n$/, '')}`);
+    if (!op.line.endsWith('\n')) lines.push('\\ No newline at end of file');
+  }
+
+  const range = (start: number, count: number) => `${count === 0 ? start : start + 1},${count}`;
+  lines.unshift(`@@ -${range(oldLine, oldCount)} +${range(newLine, newCount)} @@`);
+  return lines;
+}
+
+/**
+ * 解析补丁：按 hunk 头中的行数读取内容，只在 hunk 之外识别文件头
+ * （hunk 内以 `--- `、`+++ ` 开头的行是删除或添加的行）
+ */
+function parsePatch(patch: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  let files = 0;
+  /** 当前 hunk 尚未读取的旧行数与新行数 */
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  const lines = patch.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('\\')) {
+      const last = current?.lines[current.lines.length - 1];
+      if (last) last.eol = false;
+      continue;
+    }
+
+    if (oldLeft > 0 || newLeft > 0) {
+      // 部分工具会去掉空上下文行的前导空格
+      const type = line === '' ? ' ' : line[0];
+      if (type !== ' ' && type !== '-' && type !== '+') {
+        throw new Error(`Invalid patch line: ${line}`);
+      }
+      if (type !== '+') oldLeft--;
+      if (type !== '-') newLeft--;
+      if (oldLeft < 0 || newLeft < 0) {
+        throw new Error(`Hunk ${hunks.length} (${current!.header}) does not match its line counts`);
+      }
+      current!.lines.push({ type, text: line.slice(1), eol: true });
+      continue;
+    }
+
+    // 文件头：--- 与 +++ 相邻
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      if (++files > 1) throw new Error('Patch must only change a single file');
+      current = undefined;
+      i++;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      current = { header: header[0], oldStart: Number(header[1]), lines: [] };
+      hunks.push(current);
+      oldLeft = header[2] === undefined ? 1 : Number(header[2]);
+      newLeft = header[4] === undefined ? 1 : Number(header[4]);
+      continue;
+    }
+
+    if (current && line !== '') {
+      throw new Error(`Invalid patch line: ${line}`);
+    }
+  }
+
+  if (oldLeft > 0 || newLeft > 0) {
+    throw new Error(`Hunk ${hunks.length} (${current!.header}) is shorter than its line counts`);
+  }
+  return hunks;
+}
+
+/**
+ * 查找 hunk 旧内容的位置：先看期望位置，再向两侧扩大范围
+ */
+function findHunk(source: string[], old: HunkLine[], expected: number, min: number): number {
+  const matches = (position: number) =>
+    position >= min &&
+    position + old.length <= source.length &&
+    old.every((line, i) => source[position + i].replace(/\n$/, '') === line.text);
+
+  for (let distance = 0; distance <= source.length; distance++) {
+    if (matches(expected - distance)) return expected - distance;
+    if (distance > 0 && matches(expected + distance)) return expected + distance;
+  }
+  return -1;
+}
@@ -0,0 +1,66 @@
+/**
+ * Glob - 通配符匹配
+ *
+ * - 文本模式（默认）：* 匹配任意字符，? 匹配单个字符，适用于命令、动作等
+ * - 路径模式（path: true）：* 和 ? 不跨越 /，** 匹配任意层级目录
+ */
+
+export interface GlobOptions {
+  /** 按路径语义匹配 */
+  path?: boolean;
+  /** 忽略大小写 */
+  ignoreCase?: boolean;
+}
+
+const cache = new Map<string, RegExp>();
+
+/**
+ * 将 glob 模式转换为正则
+ */
+export function globToRegExp(pattern: string, options: GlobOptions = {}): RegExp {
+  const key = `${options.path ? 'p' : 't'}${options.ignoreCase ? 'i' : ''}:${pattern}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (options.path && pattern[i + 1] === '*') {
+        // **/ 匹配零个或多个目录
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += options.path ? '[^/]*' : '.*';
+      }
+    } else if (char === '?') {
+      source += options.path ? '[^/]' : '.';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`, options.ignoreCase ? 'is' : 's');
+  cache.set(key, regex);
+  return regex;
+}
+
+/**
+ * 是否匹配 glob 模式
+ */
+export function matchGlob(value: string, pattern: string, options: GlobOptions = {}): boolean {
+  return globToRegExp(pattern, options).test(value);
+}
+
+/**
+ * 是否匹配任一 glob 模式
+ */
+export function matchAnyGlob(value: string, patterns: string[], options: GlobOptions = {}): boolean {
+  return patterns.some((pattern) => matchGlob(value, pattern, options));
+}
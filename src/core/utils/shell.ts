@@ -0,0 +1,705 @@
+/**
+ * Shell - POSIX shell 命令解析
+ *
+ * 将命令解析为语法树，供命令策略检查使用（只解析，不做任何展开）：
+ * - 列表（; & && || 换行）、管道（| |&）、子 shell ( ) 与命令组 { }
+ * - 简单命令的环境变量前缀、参数与重定向（含 here-document）
+ * - 引号与转义；命令替换 $( ) 与 ` `、进程替换 <( ) >( ) 中的命令同样被解析
+ * - if / while / for 等复合命令的关键字被跳过，其中的命令按普通命令解析；case、函数定义与 (( )) 不支持
+ */
+
+export interface ShellWord {
+  /** 去除引号和转义后的文本，展开（$VAR、$( ) 等）保留原文 */
+  text: string;
+  /** 源码中的原文 */
+  raw: string;
+  /** 含参数展开或命令替换，实际值要到执行时才能确定 */
+  dynamic: boolean;
+  /** 其中的命令替换和进程替换 */
+  substitutions: ShellList[];
+}
+
+export interface ShellRedirect {
+  operator: string;
+  fd?: number;
+  target: ShellWord;
+  /** here-document 的内容 */
+  heredoc?: ShellWord;
+}
+
+export interface ShellCommand {
+  type: 'command';
+  /** 命令前的环境变量赋值（NAME=value） */
+  assignments: ShellWord[];
+  /** 命令名和参数 */
+  words: ShellWord[];
+  redirects: ShellRedirect[];
+  /** 复合命令的关键字部分（for 的列表、fi、done 等），words 不是可执行的命令 */
+  keyword?: string;
+}
+
+/** listSimpleCommands 列出的简单命令 */
+export interface SimpleCommand extends ShellCommand {
+  /** 标准输入来自管道或输入重定向（包括所在命令组的重定向） */
+  stdinFed: boolean;
+}
+
+export interface ShellGroup {
+  type: 'group';
+  /** ( ) 为 true，{ } 为 false */
+  subshell: boolean;
+  body: ShellList;
+  redirects: ShellRedirect[];
+}
+
+export interface ShellPipeline {
+  type: 'pipeline';
+  negated: boolean;
+  commands: Array<ShellCommand | ShellGroup>;
+}
+
+export interface ShellList {
+  type: 'list';
+  items: Array<{ pipeline: ShellPipeline; operator?: ';' | '&' | '&&' | '||' }>;
+}
+
+export class ShellParseError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'ShellParseError';
+    this.position = position;
+  }
+}
+
+/**
+ * 解析命令
+ */
+export function parseShell(source: string): ShellList {
+  return new ShellParser(source).parse();
+}
+
+/**
+ * 列出所有简单命令，包括命令组和命令替换中的命令（不含复合命令的关键字部分）
+ */
+export function listSimpleCommands(list: ShellList): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+
+  const visitWord = (word: ShellWord) => word.substitutions.forEach((substitution) => visitList(substitution));
+  const visitRedirects = (redirects: ShellRedirect[]) => {
+    for (const redirect of redirects) {
+      visitWord(redirect.target);
+      if (redirect.heredoc) visitWord(redirect.heredoc);
+    }
+  };
+
+  function visitList(node: ShellList, stdinFed = false): void {
+    for (const { pipeline } of node.items) {
+      for (const [index, command] of pipeline.commands.entries()) {
+        const fed = stdinFed || index > 0 || command.redirects.some(isInputRedirect);
+        if (command.type === 'group') {
+          visitList(command.body, fed);
+          visitRedirects(command.redirects);
+          continue;
+        }
+
+        if (!command.keyword && command.words.length > 0) {
+          commands.push({ ...command, stdinFed: fed });
+        }
+        command.assignments.forEach(visitWord);
+        command.words.forEach(visitWord);
+        visitRedirects(command.redirects);
+      }
+    }
+  }
+
+  visitList(list);
+  return commands;
+}
+
+/** 重定向是否替换标准输入（<、<<、<<<、<>、<&） */
+function isInputRedirect(redirect: ShellRedirect): boolean {
+  return redirect.operator.startsWith('<') && (redirect.fd === undefined || redirect.fd === 0);
+}
+
+/** 透明关键字：跳过后其余部分按普通命令解析 */
+const TRANSPARENT_KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'while', 'until', 'do', '!']);
+/** 结束关键字：之后只能跟重定向 */
+const CLOSING_KEYWORDS = new Set(['fi', 'done']);
+const UNSUPPORTED_KEYWORDS = new Set(['case', 'esac', 'function', 'select']);
+
+const RESERVED_PATTERN = /^(?:if|then|else|elif|fi|do|done|while|until|for|select|in|case|esac|function|\{|\}|!)(?=$|[\s;&|()<>])/;
+const REDIRECT_PATTERN = /^(\d*)(<<<|<<-|<<|<>|<&|>>|>&|>\||<|>)|^(&>>|&>)/;
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*\+?=/;
+
+interface PendingHeredoc {
+  redirect: ShellRedirect;
+  delimiter: string;
+  stripTabs: boolean;
+  quoted: boolean;
+}
+
+interface Expansion {
+  text: string;
+  dynamic: boolean;
+  substitutions: ShellList[];
+}
+
+class ShellParser {
+  private pos = 0;
+  private pendingHeredocs: PendingHeredoc[] = [];
+
+  constructor(private readonly src: string) {}
+
+  parse(): ShellList {
+    const list = this.parseList();
+    if (this.pos < this.src.length) {
+      throw this.error(`Unexpected '${this.src[this.pos]}'`);
+    }
+    return list;
+  }
+
+  /**
+   * 解析 here-document 内容中的展开（分隔符未加引号时）
+   */
+  parseHeredocBody(): Expansion {
+    return this.readQuoted();
+  }
+
+  // ---------------------------------------------------------------------------
+  // 列表与管道
+  // ---------------------------------------------------------------------------
+
+  private parseList(terminator?: ')' | '}'): ShellList {
+    const items: ShellList['items'] = [];
+
+    for (;;) {
+      this.skipSeparators();
+      if (this.atEnd()) break;
+      if (terminator === ')' && this.peek() === ')') break;
+      if (terminator === '}' && this.peekReserved() === '}') break;
+
+      const pipeline = this.parsePipeline();
+      const operator = this.readListOperator();
+      items.push({ pipeline, operator });
+
+      if (!operator) break;
+      if (operator === '&&' || operator === '||') {
+        this.skipSeparators();
+        if (this.atEnd()) throw this.error(`Expected a command after ${operator}`);
+      }
+    }
+
+    return { type: 'list', items };
+  }
+
+  private readListOperator(): ShellList['items'][number]['operator'] {
+    this.skipBlanks();
+    const rest = this.src.slice(this.pos, this.pos + 2);
+
+    if (rest.startsWith('\n')) {
+      this.pos++;
+      this.readHeredocs();
+      return ';';
+    }
+    if (rest === '&&' || rest === '||') {
+      this.pos += 2;
+      return rest;
+    }
+    if (rest === ';;') {
+      throw this.error('case statements are not supported');
+    }
+    if (rest.startsWith(';') || rest.startsWith('&')) {
+      this.pos++;
+      return rest[0] as ';' | '&';
+    }
+    return undefined;
+  }
+
+  private parsePipeline(): ShellPipeline {
+    this.skipBlanks();
+    let negated = false;
+    if (this.peekReserved() === '!') {
+      this.pos++;
+      negated = true;
+    }
+
+    const commands = [this.parseCommand()];
+    for (;;) {
+      this.skipBlanks();
+      const rest = this.src.slice(this.pos, this.pos + 2);
+      if (rest === '||' || !rest.startsWith('|')) break;
+
+      this.pos += rest === '|&' ? 2 : 1;
+      this.skipSeparators();
+      if (this.atEnd()) {
+        throw this.error('Expected a command after |');
+      }
+      commands.push(this.parseCommand());
+    }
+
+    return { type: 'pipeline', negated, commands };
+  }
+
+  // ---------------------------------------------------------------------------
+  // 命令
+  // ---------------------------------------------------------------------------
+
+  private parseCommand(): ShellCommand | ShellGroup {
+    this.skipBlanks();
+    const reserved = this.peekReserved();
+
+    if (reserved && TRANSPARENT_KEYWORDS.has(reserved)) {
+      this.pos += reserved.length;
+      this.skipSeparators();
+      return this.parseCommand();
+    }
+
+    if (reserved && CLOSING_KEYWORDS.has(reserved)) {
+      this.pos += reserved.length;
+      return { type: 'command', keyword: reserved, assignments: [], words: [], redirects: this.readRedirects() };
+    }
+
+    if (reserved && UNSUPPORTED_KEYWORDS.has(reserved)) {
+      throw this.error(`'${reserved}' is not supported`);
+    }
+
+    if (reserved === 'for') {
+      return this.parseFor();
+    }
+
+    if (reserved === '{') {
+      this.pos++;
+      const body = this.parseList('}');
+      if (this.peekReserved() !== '}') {
+        throw this.error("Expected '}'");
+      }
+      this.pos++;
+      return { type: 'group', subshell: false, body, redirects: this.readRedirects() };
+    }
+
+    if (this.peek() === '(') {
+      if (this.src[this.pos + 1] === '(') {
+        throw this.error('Arithmetic commands are not supported');
+      }
+      this.pos++;
+      const body = this.parseList(')');
+      if (this.peek() !== ')') {
+        throw this.error("Expected ')'");
+      }
+      this.pos++;
+      return { type: 'group', subshell: true, body, redirects: this.readRedirects() };
+    }
+
+    const command: ShellCommand = { type: 'command', assignments: [], words: [], redirects: [] };
+
+    for (;;) {
+      this.skipBlanks();
+      if (this.atEnd()) break;
+
+      const redirect = this.readRedirect();
+      if (redirect) {
+        command.redirects.push(redirect);
+        continue;
+      }
+
+      const char = this.peek();
+      if (char === '(') {
+        throw this.error(
+          command.words.length === 1 ? 'Function definitions are not supported' : "Unexpected '('"
+        );
+      }
+      if (';&|)\n'.includes(char)) break;
+
+      const word = this.readWord();
+      if (command.words.length === 0 && ASSIGNMENT_PATTERN.test(word.raw)) {
+        command.assignments.push(word);
+      } else {
+        command.words.push(word);
+      }
+    }
+
+    if (command.words.length === 0 && command.assignments.length === 0 && command.redirects.length === 0) {
+      throw this.error(this.atEnd() ? 'Expected a command' : `Unexpected '${this.peek()}'`);
+    }
+    return command;
+  }
+
+  /**
+   * for NAME [in WORDS]：列表中的词可能含命令替换，作为关键字命令保留
+   */
+  private parseFor(): ShellCommand {
+    this.pos += 'for'.length;
+    this.skipBlanks();
+    if (this.peek() === '(') {
+      throw this.error('Arithmetic for loops are not supported');
+    }
+
+    const words = [this.readWord()];
+    this.skipBlanks();
+    if (this.peekReserved() === 'in') {
+      this.pos += 2;
+      for (;;) {
+        this.skipBlanks();
+        if (this.atEnd() || ';&|)\n'.includes(this.peek())) break;
+        words.push(this.readWord());
+      }
+    }
+
+    return { type: 'command', keyword: 'for', assignments: [], words, redirects: [] };
+  }
+
+  private readRedirects(): ShellRedirect[] {
+    const redirects: ShellRedirect[] = [];
+    for (;;) {
+      this.skipBlanks();
+      const redirect = this.readRedirect();
+      if (!redirect) return redirects;
+      redirects.push(redirect);
+    }
+  }
+
+  private readRedirect(): ShellRedirect | undefined {
+    const match = REDIRECT_PATTERN.exec(this.src.slice(this.pos));
+    if (!match) return undefined;
+
+    const operator = match[2] ?? match[3];
+    // <( 和 >( 是进程替换，按词读取
+    if ((operator === '<' || operator === '>') && this.src[this.pos + match[0].length] === '(') {
+      return undefined;
+    }
+
+    this.pos += match[0].length;
+    this.skipBlanks();
+    if (this.atEnd() || ';&|()<>\n'.includes(this.peek())) {
+      throw this.error(`Expected a target after ${operator}`);
+    }
+
+    const redirect: ShellRedirect = {
+      operator,
+      fd: match[1] ? Number(match[1]) : undefined,
+      target: this.readWord(),
+    };
+
+    if (operator === '<<' || operator === '<<-') {
+      this.pendingHeredocs.push({
+        redirect,
+        delimiter: redirect.target.text,
+        stripTabs: operator === '<<-',
+        quoted: /['"\\]/.test(redirect.target.raw),
+      });
+    }
+
+    return redirect;
+  }
+
+  /**
+   * 读取换行后的 here-document 内容
+   */
+  private readHeredocs(): void {
+    for (const pending of this.pendingHeredocs.splice(0)) {
+      const lines: string[] = [];
+
+      while (!this.atEnd()) {
+        let end = this.src.indexOf('\n', this.pos);
+        if (end === -1) end = this.src.length;
+        let line = this.src.slice(this.pos, end);
+        this.pos = Math.min(end + 1, this.src.length);
+
+        if (pending.stripTabs) line = line.replace(/^\t+/, '');
+        if (line === pending.delimiter) break;
+        lines.push(line);
+      }
+
+      const body = lines.join('\n');
+      const expansion: Expansion = pending.quoted
+        ? { text: body, dynamic: false, substitutions: [] }
+        : new ShellParser(body).parseHeredocBody();
+      pending.redirect.heredoc = { ...expansion, raw: body };
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // 词
+  // ---------------------------------------------------------------------------
+
+  private readWord(): ShellWord {
+    const start = this.pos;
+    let text = '';
+    let dynamic = false;
+    const substitutions: ShellList[] = [];
+
+    const append = (expansion: Expansion) => {
+      text += expansion.text;
+      dynamic ||= expansion.dynamic;
+      substitutions.push(...expansion.substitutions);
+    };
+
+    while (!this.atEnd()) {
+      const char = this.peek();
+
+      if (' \t\n;&|()'.includes(char)) break;
+
+      if (char === '<' || char === '>') {
+        if (this.src[this.pos + 1] !== '(') break;
+        // 进程替换
+        this.pos += 2;
+        append(this.readSubstitution(this.pos - 2));
+        continue;
+      }
+
+      if (char === '\\') {
+        if (this.src[this.pos + 1] !== '\n') text += this.src[this.pos + 1] ?? '';
+        this.pos += 2;
+        continue;
+      }
+
+      if (char === "'") {
+        const end = this.src.indexOf("'", this.pos + 1);
+        if (end === -1) throw this.error('Unterminated single quote');
+        text += this.src.slice(this.pos + 1, end);
+        this.pos = end + 1;
+        continue;
+      }
+
+      if (char === '"') {
+        this.pos++;
+        append(this.readQuoted('"'));
+        continue;
+      }
+
+      if (char === '`') {
+        append(this.readBacktick());
+        continue;
+      }
+
+      if (char === '$') {
+        append(this.readDollar());
+        continue;
+      }
+
+      text += char;
+      this.pos++;
+    }
+
+    return { text, raw: this.src.slice(start, this.pos), dynamic, substitutions };
+  }
+
+  /**
+   * 读取双引号内容（terminator 为 undefined 时读到末尾，用于 here-document）
+   */
+  private readQuoted(terminator?: '"'): Expansion {
+    const result: Expansion = { text: '', dynamic: false, substitutions: [] };
+
+    for (;;) {
+      if (this.atEnd()) {
+        if (terminator) throw this.error('Unterminated double quote');
+        return result;
+      }
+
+      const char = this.peek();
+      if (char === terminator) {
+        this.pos++;
+        return result;
+      }
+
+      let expansion: Expansion | undefined;
+      if (char === '\\') {
+        const next = this.src[this.pos + 1] ?? '';
+        if ('$`"\\'.includes(next) && next !== '') {
+          result.text += next;
+        } else if (next !== '\n') {
+          result.text += `\\${next}`;
+        }
+        this.pos += 2;
+      } else if (char === '$') {
+        expansion = this.readDollar();
+      } else if (char === '`') {
+        expansion = this.readBacktick();
+      } else {
+        result.text += char;
+        this.pos++;
+      }
+
+      if (expansion) {
+        result.text += expansion.text;
+        result.dynamic ||= expansion.dynamic;
+        result.substitutions.push(...expansion.substitutions);
+      }
+    }
+  }
+
+  private readDollar(): Expansion {
+    const start = this.pos;
+    const next = this.src[this.pos + 1];
+
+    // $'...'：ANSI-C 引号
+    if (next === "'") {
+      let text = '';
+      this.pos += 2;
+      while (this.peek() !== "'") {
+        if (this.atEnd()) throw this.error('Unterminated quote');
+        if (this.peek() === '\\') {
+          text += unescapeAnsiC(this.src[this.pos + 1] ?? '');
+          this.pos += 2;
+        } else {
+          text += this.src[this.pos++];
+        }
+      }
+      this.pos++;
+      return { text, dynamic: false, substitutions: [] };
+    }
+
+    if (next === '(') {
+      if (this.src[this.pos + 2] === '(') {
+        // $(( ))：算术展开
+        this.pos = this.findClosing(this.pos + 3, '(', ')', 2);
+        return { text: this.src.slice(start, this.pos), dynamic: true, substitutions: [] };
+      }
+      this.pos += 2;
+      return this.readSubstitution(start);
+    }
+
+    if (next === '{') {
+      this.pos += 2;
+      const result: Expansion = { text: '', dynamic: true, substitutions: [] };
+      while (this.peek() !== '}') {
+        if (this.atEnd()) throw this.error('Unterminated ${');
+        const char = this.peek();
+        if (char === '$' || char === '`' || char === '"') {
+          if (char === '"') this.pos++;
+          const inner = char === '$' ? this.readDollar() : char === '`' ? this.readBacktick() : this.readQuoted('"');
+          result.substitutions.push(...inner.substitutions);
+        } else if (char === "'") {
+          const end = this.src.indexOf("'", this.pos + 1);
+          if (end === -1) throw this.error('Unterminated single quote');
+          this.pos = end + 1;
+        } else {
+          this.pos += char === '\\' ? 2 : 1;
+        }
+      }
+      this.pos++;
+      result.text = this.src.slice(start, this.pos);
+      return result;
+    }
+
+    const name = /^(?:[A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])/.exec(this.src.slice(this.pos + 1));
+    if (name) {
+      this.pos += 1 + name[0].length;
+      return { text: this.src.slice(start, this.pos), dynamic: true, substitutions: [] };
+    }
+
+    this.pos++;
+    return { text: '$', dynamic: false, substitutions: [] };
+  }
+
+  /**
+   * 读取 $( ) / <( ) / >( ) 的内容（pos 位于左括号之后）
+   */
+  private readSubstitution(start: number): Expansion {
+    const list = this.parseList(')');
+    if (this.peek() !== ')') {
+      throw this.error('Unterminated command substitution');
+    }
+    this.pos++;
+    return { text: this.src.slice(start, this.pos), dynamic: true, substitutions: [list] };
+  }
+
+  private readBacktick(): Expansion {
+    const start = this.pos;
+    let inner = '';
+    this.pos++;
+
+    while (this.peek() !== '`') {
+      if (this.atEnd()) throw this.error('Unterminated backquote');
+      const char = this.peek();
+      if (char === '\\' && '`$\\'.includes(this.src[this.pos + 1] ?? '')) {
+        inner += this.src[this.pos + 1];
+        this.pos += 2;
+      } else {
+        inner += char;
+        this.pos++;
+      }
+    }
+    this.pos++;
+
+    let list: ShellList;
+    try {
+      list = parseShell(inner);
+    } catch (error) {
+      throw this.error(`Invalid command substitution: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return { text: this.src.slice(start, this.pos), dynamic: true, substitutions: [list] };
+  }
+
+  // ---------------------------------------------------------------------------
+  // 工具方法
+  // ---------------------------------------------------------------------------
+
+  /**
+   * 跳过空白、续行和注释（不含换行）
+   */
+  private skipBlanks(): void {
+    while (!this.atEnd()) {
+      const char = this.peek();
+      if (char === ' ' || char === '\t') {
+        this.pos++;
+      } else if (char === '\\' && this.src[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else if (char === '#') {
+        const end = this.src.indexOf('\n', this.pos);
+        this.pos = end === -1 ? this.src.length : end;
+      } else {
+        return;
+      }
+    }
+  }
+
+  /**
+   * 跳过空白、注释和换行
+   */
+  private skipSeparators(): void {
+    for (;;) {
+      this.skipBlanks();
+      if (this.peek() !== '\n') return;
+      this.pos++;
+      this.readHeredocs();
+    }
+  }
+
+  /**
+   * 当前位置的保留字（仅在命令开头有意义）
+   */
+  private peekReserved(): string | undefined {
+    return RESERVED_PATTERN.exec(this.src.slice(this.pos))?.[0];
+  }
+
+  /**
+   * 查找 depth 层括号的结束位置，返回结束括号之后的位置
+   */
+  private findClosing(from: number, open: string, close: string, depth: number): number {
+    for (let i = from; i < this.src.length; i++) {
+      if (this.src[i] === open) depth++;
+      if (this.src[i] === close && --depth === 0) return i + 1;
+    }
+    throw this.error(`Expected '${close}'`);
+  }
+
+  private peek(): string {
+    return this.src[this.pos] ?? '';
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.src.length;
+  }
+
+  private error(message: string): ShellParseError {
+    return new ShellParseError(message, this.pos);
+  }
+}
+
+function unescapeAnsiC(char: string): string {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0', a: '\x07', b: '\b', e: '\x1b' };
+  return escapes[char] ?? char;
+}
@@ -0,0 +1,154 @@
+/**
+ * Walk - 工作区遍历
+ *
+ * - 递归遍历目录（按名称排序），不跟随符号链接
+ * - 跳过 .git 以及 .gitignore 忽略的路径：支持各级目录的 .gitignore、! 取反、/ 锚定和目录规则
+ * - 返回的路径相对于工作区根目录，以 / 分隔
+ */
+
+import { promises as fs } from 'fs';
+import { join, relative, sep } from 'path';
+import { globToRegExp } from './glob.js';
+
+export interface WalkEntry {
+  /** 相对于工作区根目录的路径 */
+  path: string;
+  absolutePath: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+}
+
+export interface WalkOptions {
+  /** 工作区根目录：路径相对于它，并从它开始加载 .gitignore */
+  root: string;
+  /** 是否遵循 .gitignore，默认 true */
+  gitignore?: boolean;
+  signal?: AbortSignal;
+}
+
+interface IgnoreRule {
+  /** 规则所在目录（相对于根目录，根目录为空字符串） */
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * .gitignore 规则集
+ */
+export class GitIgnore {
+  private rules: IgnoreRule[] = [];
+
+  /**
+   * 添加一个 .gitignore 文件的内容
+   *
+   * @param base 文件所在目录（相对于根目录）
+   */
+  add(base: string, content: string): void {
+    for (const rawLine of content.split(/\r?\n/)) {
+      let pattern = rawLine.replace(/(?<!\\)\s+$/, '');
+      if (!pattern || pattern.startsWith('#')) continue;
+
+      const negate = pattern.startsWith('!');
+      if (negate) pattern = pattern.slice(1);
+      if (pattern.startsWith('\\')) pattern = pattern.slice(1);
+
+      const directoryOnly = pattern.endsWith('/');
+      if (directoryOnly) pattern = pattern.replace(/\/+$/, '');
+
+      // 含 / 的规则相对于 .gitignore 所在目录，否则匹配任意层级的名称
+      const anchored = pattern.includes('/');
+      if (pattern.startsWith('/')) pattern = pattern.slice(1);
+      if (!pattern) continue;
+
+      this.rules.push({
+        base,
+        regex: globToRegExp(anchored ? pattern : `**/${pattern}`, { path: true }),
+        negate,
+        directoryOnly,
+      });
+    }
+  }
+
+  /**
+   * 路径是否被忽略（最后一条匹配的规则生效）
+   */
+  ignores(path: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.base && !path.startsWith(`${rule.base}/`)) continue;
+
+      const target = rule.base ? path.slice(rule.base.length + 1) : path;
+      if (rule.regex.test(target)) {
+        ignored = !rule.negate;
+      }
+    }
+
+    return ignored;
+  }
+}
+
+/**
+ * 遍历 start 下的所有条目（不含 start 本身）
+ */
+export async function* walk(start: string, options: WalkOptions): AsyncGenerator<WalkEntry> {
+  const useGitignore = options.gitignore ?? true;
+  const ignore = new GitIgnore();
+
+  if (useGitignore) {
+    // 加载根目录到起始目录之间（含两端）的 .gitignore
+    const parts = toPosix(relative(options.root, start)).split('/').filter(Boolean);
+    for (let i = 0; i <= parts.length; i++) {
+      await loadGitignore(ignore, options.root, parts.slice(0, i).join('/'));
+    }
+  }
+
+  const stack = [start];
+  while (stack.length > 0) {
+    options.signal?.throwIfAborted();
+    const dir = stack.pop()!;
+
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    const subdirectories: string[] = [];
+    for (const entry of entries) {
+      if (entry.name === '.git') continue;
+
+      const absolutePath = join(dir, entry.name);
+      const path = toPosix(relative(options.root, absolutePath));
+      const isDirectory = entry.isDirectory();
+      if (useGitignore && ignore.ignores(path, isDirectory)) continue;
+
+      const type = isDirectory ? 'directory' : entry.isFile() ? 'file' : entry.isSymbolicLink() ? 'symlink' : 'other';
+      yield { path, absolutePath, type };
+
+      if (isDirectory) {
+        if (useGitignore) await loadGitignore(ignore, options.root, path);
+        subdirectories.push(absolutePath);
+      }
+    }
+
+    // 逆序入栈，子目录按名称顺序处理
+    stack.push(...subdirectories.reverse());
+  }
+}
+
+async function loadGitignore(ignore: GitIgnore, root: string, base: string): Promise<void> {
+  try {
+    ignore.add(base, await fs.readFile(join(root, base, '.gitignore'), 'utf-8'));
+  } catch {
+    // 没有 .gitignore
+  }
+}
+
+function toPosix(path: string): string {
+  return sep === '/' ? path : path.split(sep).join('/');
+}
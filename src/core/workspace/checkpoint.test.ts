@@ -0,0 +1,140 @@
+import { promises as fs } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CheckpointManager, type Checkpoint } from './checkpoint.js';
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'checkpoint-'));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+const write = async (path: string, content: string) => {
+  await fs.mkdir(join(root, path, '..'), { recursive: true });
+  await fs.writeFile(join(root, path), content);
+};
+const read = (path: string) => fs.readFile(join(root, path), 'utf-8');
+const exists = (path: string) =>
+  fs.access(join(root, path)).then(
+    () => true,
+    () => false
+  );
+
+async function objectCount(): Promise<number> {
+  const objects = join(root, 'checkpoints', 'objects');
+  let count = 0;
+  for (const prefix of await fs.readdir(objects).catch(() => [] as string[])) {
+    count += (await fs.readdir(join(objects, prefix))).length;
+  }
+  return count;
+}
+
+describe('CheckpointManager', () => {
+  it('records the changes made after a checkpoint', async () => {
+    await write('keep.txt', 'keep');
+    await write('edit.txt', 'before');
+    await write('remove.txt', 'remove');
+    const manager = new CheckpointManager(root);
+
+    const checkpoint = await manager.create({ runId: 'run_1', sessionId: 'main' });
+    await write('edit.txt', 'after');
+    await fs.rm(join(root, 'remove.txt'));
+    await write('src/new.txt', 'new');
+
+    expect(await manager.complete(checkpoint.id)).toEqual([
+      { path: 'edit.txt', type: 'modified' },
+      { path: 'remove.txt', type: 'deleted' },
+      { path: 'src/new.txt', type: 'added' },
+    ]);
+    expect((await manager.list('main'))[0]).toMatchObject({ id: checkpoint.id, runId: 'run_1', fileCount: 3 });
+  });
+
+  it('rewinds the workspace and can undo the rewind', async () => {
+    await write('a.txt', 'one');
+    await write('gone.txt', 'gone');
+    const manager = new CheckpointManager(root);
+    const checkpoint = await manager.create();
+
+    await write('a.txt', 'two');
+    await fs.rm(join(root, 'gone.txt'));
+    await write('deep/dir/added.txt', 'added');
+
+    const result = await manager.rewind(checkpoint.id);
+    expect(result.restored.sort()).toEqual(['a.txt', 'gone.txt']);
+    expect(result.deleted).toEqual(['deep/dir/added.txt']);
+    expect(await read('a.txt')).toBe('one');
+    expect(await read('gone.txt')).toBe('gone');
+    expect(await exists('deep')).toBe(false);
+
+    await manager.rewind(result.backupCheckpointId);
+    expect(await read('a.txt')).toBe('two');
+    expect(await exists('gone.txt')).toBe(false);
+    expect(await read('deep/dir/added.txt')).toBe('added');
+  });
+
+  it('leaves excluded and oversized files alone', async () => {
+    await write('sessions/main.jsonl', 'history');
+    await write('big.bin', 'x'.repeat(100));
+    const manager = new CheckpointManager(root, { maxFileBytes: 10 });
+    const checkpoint = await manager.create();
+    expect(checkpoint.files).toEqual({});
+    expect(checkpoint.skipped).toEqual(['big.bin']);
+
+    await write('sessions/main.jsonl', 'changed');
+    await write('big.bin', 'y'.repeat(100));
+    await manager.rewind(checkpoint.id);
+    expect(await read('sessions/main.jsonl')).toBe('changed');
+    expect(await read('big.bin')).toBe('y'.repeat(100));
+  });
+
+  it('prunes old checkpoints and unreferenced objects', async () => {
+    const manager = new CheckpointManager(root, { maxCheckpoints: 2 });
+    const first = await manager.create();
+    for (const content of ['one', 'two', 'three']) {
+      await write('a.txt', content);
+      await manager.create();
+    }
+
+    const remaining = await manager.list();
+    expect(remaining).toHaveLength(2);
+    expect(await manager.get(first.id)).toBeUndefined();
+    expect(await objectCount()).toBe(2);
+  });
+
+  it('keeps objects of checkpoints created while pruning', async () => {
+    const manager = new CheckpointManager(root, { maxCheckpoints: 1 });
+    await write('a.txt', 'base');
+    await manager.create();
+
+    // 不等待创建完成，各次创建与清理交错进行
+    const pending: Promise<Checkpoint>[] = [];
+    for (const content of ['one', 'two', 'three', 'four']) {
+      await write(`${content}.txt`, content);
+      pending.push(manager.create());
+    }
+    const created = await Promise.all(pending);
+
+    const [latest] = await manager.list();
+    expect(latest.id).toBe(created[created.length - 1].id);
+    await fs.rm(join(root, 'a.txt'));
+    await manager.rewind(latest.id);
+    expect(await read('a.txt')).toBe('base');
+    expect(await read('four.txt')).toBe('four');
+  });
+
+  it('keeps the rewind target when the backup checkpoint triggers pruning', async () => {
+    const manager = new CheckpointManager(root, { maxCheckpoints: 1 });
+    await write('a.txt', 'one');
+    const checkpoint = await manager.create();
+
+    await write('a.txt', 'two');
+    await manager.rewind(checkpoint.id);
+    expect(await read('a.txt')).toBe('one');
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * Checkpoint Manager - 工作区检查点
+ *
+ * - 每次运行前为工作区拍快照，运行结束后记录本次运行的文件变更（新增、修改、删除）
+ * - 文件内容按 SHA-256 存入 checkpoints/objects，快照之间共享相同内容；未变化的文件按大小和修改时间复用哈希
+ * - rewind 将工作区恢复到任一检查点：先为当前状态拍快照（可再恢复），再还原修改和删除的文件、删除新增的文件
+ * - 跳过 .git、.gitignore 忽略的文件、exclude 中的路径（默认会话、用量、检查点和浏览器状态目录）以及超过大小上限的文件
+ * - 工作区由所有会话共用，并行运行时一次运行记录的变更可能包含其他运行的修改
+ * - 创建、完成、rewind 和清理串行执行，清理时不会删除正在创建的检查点引用的对象
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { matchAnyGlob } from '../utils/glob.js';
+import { walk } from '../utils/walk.js';
+import type { CheckpointConfig } from '../../types/index.js';
+
+export interface CheckpointFile {
+  type: 'file' | 'symlink';
+  /** 文件内容的 SHA-256（type 为 file） */
+  hash?: string;
+  /** 链接目标（type 为 symlink） */
+  target?: string;
+  mode: number;
+  size: number;
+  mtimeMs: number;
+}
+
+export interface FileChange {
+  path: string;
+  type: 'added' | 'modified' | 'deleted';
+}
+
+export interface Checkpoint {
+  id: string;
+  /** 在此运行开始前创建 */
+  runId?: string;
+  sessionId?: string;
+  /** 说明，如 `before rewind to ...` */
+  label?: string;
+  /** 创建时会话的消息数，rewind 同时回退会话时截断到此处 */
+  messageCount?: number;
+  createdAt: number;
+  /** 运行结束时间（记录 changes 时） */
+  completedAt?: number;
+  /** 工作区相对路径 → 文件 */
+  files: Record<string, CheckpointFile>;
+  /** 超过大小上限而未保存的文件，rewind 时保持不变 */
+  skipped: string[];
+  /** 对应运行的文件变更 */
+  changes?: FileChange[];
+}
+
+/** 列表中的检查点（不含文件清单） */
+export type CheckpointInfo = Omit<Checkpoint, 'files' | 'skipped'> & { fileCount: number };
+
+export interface RewindResult {
+  checkpointId: string;
+  /** rewind 前为当前状态创建的检查点 */
+  backupCheckpointId: string;
+  /** 写回的文件 */
+  restored: string[];
+  /** 删除的文件（检查点之后新增的） */
+  deleted: string[];
+  /** 同时回退会话时移除的消息数 */
+  messagesRemoved?: number;
+}
+
+interface Snapshot {
+  files: Record<string, CheckpointFile>;
+  skipped: string[];
+}
+
+const DEFAULT_EXCLUDE = ['sessions/**', 'usage/**', 'checkpoints/**', 'browser/**'];
+
+export class CheckpointManager {
+  private root: string;
+  private dir: string;
+  private objectsDir: string;
+  private maxCheckpoints: number;
+  private maxFileBytes: number;
+  private exclude: string[];
+  /** 路径 → 上次计算的哈希（大小和修改时间不变时复用） */
+  private hashes: Map<string, { size: number; mtimeMs: number; hash: string }> = new Map();
+  /** 串行执行写入检查点目录的操作 */
+  private queue: Promise<unknown> = Promise.resolve();
+  /** 上一个检查点的创建时间，保证同一毫秒内创建的检查点仍按先后排序 */
+  private lastCreatedAt = 0;
+
+  constructor(workspaceRoot: string, config: CheckpointConfig = {}) {
+    this.root = resolve(workspaceRoot);
+    this.dir = join(this.root, 'checkpoints');
+    this.objectsDir = join(this.dir, 'objects');
+    this.maxCheckpoints = config.maxCheckpoints ?? 100;
+    this.maxFileBytes = config.maxFileBytes ?? 10 * 1024 * 1024;
+    this.exclude = config.exclude ?? DEFAULT_EXCLUDE;
+  }
+
+  /**
+   * 为当前工作区创建检查点
+   */
+  async create(
+    params: { runId?: string; sessionId?: string; label?: string; messageCount?: number } = {}
+  ): Promise<Checkpoint> {
+    return this.exclusive(() => this.createCheckpoint(params));
+  }
+
+  /**
+   * 运行结束：记录检查点之后的文件变更
+   */
+  async complete(id: string): Promise<FileChange[]> {
+    return this.exclusive(async () => {
+      const checkpoint = await this.get(id);
+      if (!checkpoint) {
+        throw new Error(`Checkpoint not found: ${id}`);
+      }
+
+      const current = await this.snapshot(false);
+      checkpoint.changes = diffSnapshots(checkpoint, current);
+      checkpoint.completedAt = Date.now();
+      await this.save(checkpoint);
+      return checkpoint.changes;
+    });
+  }
+
+  /**
+   * 获取检查点
+   */
+  async get(id: string): Promise<Checkpoint | undefined> {
+    if (!/^[\w-]+$/.test(id)) return undefined;
+    try {
+      return JSON.parse(await fs.readFile(this.getPath(id), 'utf-8')) as Checkpoint;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 列出检查点（按创建时间从新到旧）
+   */
+  async list(sessionId?: string): Promise<CheckpointInfo[]> {
+    const checkpoints = await this.loadAll();
+    return checkpoints
+      .filter((checkpoint) => !sessionId || checkpoint.sessionId === sessionId)
+      .reverse()
+      .map(({ files, skipped: _skipped, ...info }) => ({ ...info, fileCount: Object.keys(files).length }));
+  }
+
+  /**
+   * 将工作区恢复到检查点
+   */
+  async rewind(id: string): Promise<RewindResult> {
+    return this.exclusive(() => this.rewindTo(id));
+  }
+
+  private async rewindTo(id: string): Promise<RewindResult> {
+    const target = await this.get(id);
+    if (!target) {
+      throw new Error(`Checkpoint not found: ${id}`);
+    }
+
+    // 清理时保留目标检查点，其对象在还原前不能被删除
+    const backup = await this.createCheckpoint({ sessionId: target.sessionId, label: `before rewind to ${id}` }, id);
+    const skipped = new Set(target.skipped);
+    const restored: string[] = [];
+    const deleted: string[] = [];
+
+    for (const path of Object.keys(backup.files)) {
+      if (target.files[path] || skipped.has(path)) continue;
+      await fs.rm(join(this.root, path), { force: true });
+      deleted.push(path);
+    }
+
+    for (const [path, file] of Object.entries(target.files)) {
+      if (sameContent(backup.files[path], file)) continue;
+      await this.restoreFile(path, file);
+      restored.push(path);
+    }
+
+    await this.removeEmptyDirectories(deleted, target);
+    // 恢复后的文件修改时间已变化，缓存的哈希不再可靠
+    this.hashes.clear();
+
+    return { checkpointId: id, backupCheckpointId: backup.id, restored, deleted };
+  }
+
+  private async createCheckpoint(
+    params: { runId?: string; sessionId?: string; label?: string; messageCount?: number },
+    keep?: string
+  ): Promise<Checkpoint> {
+    const snapshot = await this.snapshot(true);
+    const createdAt = Math.max(Date.now(), this.lastCreatedAt + 1);
+    this.lastCreatedAt = createdAt;
+    const checkpoint: Checkpoint = {
+      id: `ckpt_${createdAt}_${Math.random().toString(36).slice(2, 8)}`,
+      runId: params.runId,
+      sessionId: params.sessionId,
+      label: params.label,
+      messageCount: params.messageCount,
+      createdAt,
+      ...snapshot,
+    };
+
+    await this.save(checkpoint);
+    await this.prune(keep);
+    return checkpoint;
+  }
+
+  /**
+   * 遍历工作区并计算文件哈希
+   *
+   * @param store 是否将文件内容存入对象目录
+   */
+  private async snapshot(store: boolean): Promise<Snapshot> {
+    const files: Record<string, CheckpointFile> = {};
+    const skipped: string[] = [];
+
+    for await (const entry of walk(this.root, { root: this.root })) {
+      if (entry.type !== 'file' && entry.type !== 'symlink') continue;
+      if (matchAnyGlob(entry.path, this.exclude, { path: true })) continue;
+
+      const stat = await fs.lstat(entry.absolutePath);
+      const base = { mode: stat.mode & 0o777, size: stat.size, mtimeMs: stat.mtimeMs };
+
+      if (entry.type === 'symlink') {
+        files[entry.path] = { type: 'symlink', target: await fs.readlink(entry.absolutePath), ...base };
+        continue;
+      }
+      if (stat.size > this.maxFileBytes) {
+        skipped.push(entry.path);
+        continue;
+      }
+
+      const hash = await this.hashFile(entry.path, entry.absolutePath, stat, store);
+      files[entry.path] = { type: 'file', hash, ...base };
+    }
+
+    return { files, skipped };
+  }
+
+  private async hashFile(
+    path: string,
+    absolutePath: string,
+    stat: { size: number; mtimeMs: number },
+    store: boolean
+  ): Promise<string> {
+    const cached = this.hashes.get(path);
+    if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+      if (!store || (await exists(this.getObjectPath(cached.hash)))) return cached.hash;
+    }
+
+    const content = await fs.readFile(absolutePath);
+    const hash = createHash('sha256').update(content).digest('hex');
+    this.hashes.set(path, { size: stat.size, mtimeMs: stat.mtimeMs, hash });
+
+    if (store) {
+      const objectPath = this.getObjectPath(hash);
+      if (!(await exists(objectPath))) {
+        await fs.mkdir(dirname(objectPath), { recursive: true });
+        await fs.writeFile(objectPath, content);
+      }
+    }
+    return hash;
+  }
+
+  private async restoreFile(path: string, file: CheckpointFile): Promise<void> {
+    const absolutePath = join(this.root, path);
+    await fs.mkdir(dirname(absolutePath), { recursive: true });
+    // 先删除，目标位置可能是符号链接或目录以外的其他类型
+    await fs.rm(absolutePath, { force: true });
+
+    if (file.type === 'symlink') {
+      await fs.symlink(file.target!, absolutePath);
+      return;
+    }
+
+    await fs.copyFile(this.getObjectPath(file.hash!), absolutePath);
+    await fs.chmod(absolutePath, file.mode);
+  }
+
+  /**
+   * 删除因删除新增文件而变空、且检查点中不存在的目录
+   */
+  private async removeEmptyDirectories(deleted: string[], target: Checkpoint): Promise<void> {
+    const needed = new Set<string>();
+    for (const path of [...Object.keys(target.files), ...target.skipped]) {
+      for (let dir = dirname(path); dir !== '.'; dir = dirname(dir)) needed.add(dir);
+    }
+
+    const candidates = new Set<string>();
+    for (const path of deleted) {
+      for (let dir = dirname(path); dir !== '.'; dir = dirname(dir)) {
+        if (!needed.has(dir)) candidates.add(dir);
+      }
+    }
+
+    // 由深到浅删除，非空目录保留
+    const ordered = Array.from(candidates).sort((a, b) => b.split('/').length - a.split('/').length);
+    for (const dir of ordered) {
+      await fs.rmdir(join(this.root, dir)).catch(() => {});
+    }
+  }
+
+  private async save(checkpoint: Checkpoint): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.getPath(checkpoint.id), JSON.stringify(checkpoint), 'utf-8');
+  }
+
+  private async loadAll(): Promise<Checkpoint[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const checkpoints: Checkpoint[] = [];
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue;
+      const checkpoint = await this.get(name.slice(0, -'.json'.length));
+      if (checkpoint) checkpoints.push(checkpoint);
+    }
+    return checkpoints.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * 超过数量上限时删除最早的检查点（keep 除外），并清理不再被引用的对象
+   */
+  private async prune(keep?: string): Promise<void> {
+    const checkpoints = await this.loadAll();
+    const removed = checkpoints
+      .filter((checkpoint) => checkpoint.id !== keep)
+      .slice(0, Math.max(0, checkpoints.length - this.maxCheckpoints));
+    if (removed.length === 0) return;
+
+    for (const checkpoint of removed) {
+      await fs.rm(this.getPath(checkpoint.id), { force: true });
+    }
+
+    const referenced = new Set<string>();
+    for (const checkpoint of checkpoints.filter((checkpoint) => !removed.includes(checkpoint))) {
+      for (const file of Object.values(checkpoint.files)) {
+        if (file.hash) referenced.add(file.hash);
+      }
+    }
+
+    for (const prefix of await fs.readdir(this.objectsDir).catch(() => [] as string[])) {
+      for (const hash of await fs.readdir(join(this.objectsDir, prefix))) {
+        if (!referenced.has(hash)) await fs.rm(join(this.objectsDir, prefix, hash), { force: true });
+      }
+    }
+  }
+
+  /**
+   * 等待之前的操作完成后执行，失败不影响后续操作
+   */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private getPath(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+
+  private getObjectPath(hash: string): string {
+    return join(this.objectsDir, hash.slice(0, 2), hash);
+  }
+}
+
+/**
+ * 比较检查点与当前快照
+ */
+function diffSnapshots(before: Snapshot, after: Snapshot): FileChange[] {
+  const changes: FileChange[] = [];
+  for (const [path, file] of Object.entries(after.files)) {
+    if (!before.files[path]) {
+      changes.push({ path, type: 'added' });
+    } else if (!sameContent(before.files[path], file)) {
+      changes.push({ path, type: 'modified' });
+    }
+  }
+  for (const path of Object.keys(before.files)) {
+    if (!after.files[path]) changes.push({ path, type: 'deleted' });
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function sameContent(a: CheckpointFile | undefined, b: CheckpointFile): boolean {
+  return !!a && a.type === b.type && a.hash === b.hash && a.target === b.target && a.mode === b.mode;
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import { mkdtemp, realpath, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { WorkspaceAccessError, WorkspaceGuard } from './guard.js';
+
+let base: string;
+let root: string;
+let outside: string;
+let guard: WorkspaceGuard;
+
+beforeAll(async () => {
+  base = await realpath(await mkdtemp(join(tmpdir(), 'guard-')));
+  root = join(base, 'ws');
+  outside = join(base, 'ws-evil');
+  await fs.mkdir(join(root, 'src'), { recursive: true });
+  await fs.mkdir(join(root, '.git'), { recursive: true });
+  await fs.mkdir(outside);
+  await fs.writeFile(join(root, 'src', 'index.ts'), '');
+  await fs.writeFile(join(outside, 'secret.txt'), 'secret');
+
+  await fs.symlink(outside, join(root, 'escape'));
+  await fs.symlink(join(outside, 'missing.txt'), join(root, 'dangling'));
+  await fs.symlink('src', join(root, 'alias'));
+  await fs.symlink('.git', join(root, 'git-alias'));
+
+  guard = new WorkspaceGuard(root);
+});
+
+afterAll(async () => {
+  await rm(base, { recursive: true, force: true });
+});
+
+async function reason(path: string, access: 'read' | 'write' = 'read'): Promise<string | undefined> {
+  try {
+    await guard.resolve(path, access);
+    return undefined;
+  } catch (error) {
+    if (error instanceof WorkspaceAccessError) return error.reason;
+    throw error;
+  }
+}
+
+describe('WorkspaceGuard', () => {
+  it('resolves paths inside the workspace', async () => {
+    expect(await guard.resolve('src/index.ts', 'read')).toBe(join(root, 'src', 'index.ts'));
+    expect(await guard.resolve('src/new/file.ts', 'write')).toBe(join(root, 'src', 'new', 'file.ts'));
+    expect(await guard.resolve('alias/index.ts', 'write')).toBe(join(root, 'src', 'index.ts'));
+  });
+
+  it('rejects paths outside the workspace, including sibling prefixes', async () => {
+    expect(await reason('../ws-evil/secret.txt')).toBe('outside-workspace');
+    expect(await reason(join(outside, 'secret.txt'))).toBe('outside-workspace');
+    expect(await reason('/etc/passwd')).toBe('outside-workspace');
+    expect(await reason('src/../../ws-evil')).toBe('outside-workspace');
+  });
+
+  it('rejects symbolic links that escape the workspace', async () => {
+    expect(await reason('escape/secret.txt')).toBe('symlink-escape');
+    expect(await reason('escape/new.txt', 'write')).toBe('symlink-escape');
+    expect(await reason('dangling', 'write')).toBe('symlink-escape');
+  });
+
+  it('applies read-only and deny rules to the real path', async () => {
+    expect(await reason('.git/config')).toBeUndefined();
+    expect(await reason('.git/config', 'write')).toBe('read-only');
+    expect(await reason('.git', 'write')).toBe('read-only');
+    expect(await reason('git-alias/config', 'write')).toBe('read-only');
+    expect(await reason('browser/default.json')).toBe('denied');
+  });
+
+  it('keeps browser state denied with a custom deny list', async () => {
+    const custom = new WorkspaceGuard(root, { deny: ['src/**'] });
+    await expect(custom.resolve('browser/default.json', 'read')).rejects.toMatchObject({ reason: 'denied' });
+    await expect(custom.resolve('src/index.ts', 'read')).rejects.toMatchObject({ reason: 'denied' });
+  });
+
+  it('records every access per run', async () => {
+    await guard.resolve('src/index.ts', 'read', { runId: 'run_1', tool: 'filesystem', action: 'read' });
+    await guard.resolve('escape/secret.txt', 'read', { runId: 'run_1', tool: 'filesystem' }).catch(() => {});
+
+    expect(guard.takeAudit('run_1')).toMatchObject([
+      { path: 'src/index.ts', access: 'read', allowed: true, tool: 'filesystem', action: 'read' },
+      { path: 'escape/secret.txt', access: 'read', allowed: false, reason: 'symlink-escape' },
+    ]);
+    expect(guard.getAudit('run_1')).toEqual([]);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Workspace Guard - 工作区边界
+ *
+ * 所有访问文件路径的工具共用：
+ * - 路径按目录层级判断是否在工作区内（`/data/ws-evil` 不属于 `/data/ws`）
+ * - 解析符号链接（包括指向不存在目标的链接和尚未创建的文件的上级目录），真实路径也必须在工作区内
+ * - deny 模式禁止任何访问，readOnly 模式禁止写入；模式为相对于工作区的 glob，`dir/**` 同时匹配 dir 本身
+ * - 按运行记录每次文件访问（包括被拒绝的访问），运行结束时写入 AgentRun.files
+ */
+
+import { promises as fs } from 'fs';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { matchGlob } from '../utils/glob.js';
+import type { FileAccess, FileAccessRecord, WorkspaceGuardConfig } from '../../types/index.js';
+
+export type WorkspaceViolation = NonNullable<FileAccessRecord['reason']>;
+
+export class WorkspaceAccessError extends Error {
+  readonly path: string;
+  readonly reason: WorkspaceViolation;
+
+  constructor(path: string, reason: WorkspaceViolation) {
+    super(`${describeViolation(reason)}: ${path}`);
+    this.name = 'WorkspaceAccessError';
+    this.path = path;
+    this.reason = reason;
+  }
+}
+
+/** 审计记录的来源 */
+export interface AccessSource {
+  runId?: string;
+  tool: string;
+  action?: string;
+}
+
+const DEFAULT_READ_ONLY = ['.git/**', 'sessions/**', 'usage/**', 'checkpoints/**'];
+/** 浏览器登录状态（cookie，旧版本保存在工作区）始终不对工具开放，自定义 deny 时也保留 */
+const ALWAYS_DENY = ['browser/**'];
+/** 解析符号链接的最大层数 */
+const MAX_SYMLINK_DEPTH = 40;
+
+export class WorkspaceGuard {
+  readonly root: string;
+  private readOnly: string[];
+  private deny: string[];
+  private audits: Map<string, FileAccessRecord[]> = new Map();
+
+  constructor(root: string, config: WorkspaceGuardConfig = {}) {
+    this.root = resolve(root);
+    this.readOnly = config.readOnly ?? DEFAULT_READ_ONLY;
+    this.deny = [...ALWAYS_DENY, ...(config.deny ?? [])];
+  }
+
+  /**
+   * 解析路径并检查访问权限，返回真实的绝对路径
+   *
+   * @throws WorkspaceAccessError 路径越界或被保护时
+   */
+  async resolve(inputPath: string, access: FileAccess, source?: AccessSource): Promise<string> {
+    const lexical = resolve(this.root, inputPath);
+    const record = (allowed: boolean, path: string, reason?: WorkspaceViolation) =>
+      this.record(source, { path, access, allowed, reason });
+
+    const lexicalPath = this.relativePath(this.root, lexical);
+    if (lexicalPath === undefined) {
+      record(false, inputPath, 'outside-workspace');
+      throw new WorkspaceAccessError(inputPath, 'outside-workspace');
+    }
+
+    const realRoot = await this.realRoot();
+    const real = await realpathLoose(lexical);
+    const realPath = this.relativePath(realRoot, real);
+    if (realPath === undefined) {
+      record(false, lexicalPath, 'symlink-escape');
+      throw new WorkspaceAccessError(inputPath, 'symlink-escape');
+    }
+
+    // 符号链接可能指向受保护的路径，两者都要检查
+    const violation = this.check(lexicalPath, access) ?? this.check(realPath, access);
+    if (violation) {
+      record(false, lexicalPath, violation);
+      throw new WorkspaceAccessError(inputPath, violation);
+    }
+
+    record(true, lexicalPath || '.');
+    return real;
+  }
+
+  /**
+   * 工作区根目录的真实路径
+   */
+  realRoot(): Promise<string> {
+    return realpathLoose(this.root);
+  }
+
+  /**
+   * 检查工作区相对路径（以 / 分隔）是否允许访问，返回违反的规则
+   */
+  check(path: string, access: FileAccess): WorkspaceViolation | undefined {
+    if (this.deny.some((pattern) => matchesPattern(path, pattern))) return 'denied';
+    if (access === 'write' && this.readOnly.some((pattern) => matchesPattern(path, pattern))) return 'read-only';
+    return undefined;
+  }
+
+  /**
+   * 取出并清除运行的访问记录
+   */
+  takeAudit(runId: string): FileAccessRecord[] {
+    const records = this.audits.get(runId) ?? [];
+    this.audits.delete(runId);
+    return records;
+  }
+
+  /**
+   * 运行的访问记录
+   */
+  getAudit(runId: string): FileAccessRecord[] {
+    return [...(this.audits.get(runId) ?? [])];
+  }
+
+  private record(source: AccessSource | undefined, entry: Omit<FileAccessRecord, 'tool' | 'action' | 'timestamp'>): void {
+    if (!source?.runId) return;
+
+    const records = this.audits.get(source.runId) ?? [];
+    records.push({ ...entry, tool: source.tool, action: source.action, timestamp: Date.now() });
+    this.audits.set(source.runId, records);
+  }
+
+  /**
+   * 相对于 base 的路径（以 / 分隔，base 本身为空字符串），不在 base 内时返回 undefined
+   */
+  private relativePath(base: string, target: string): string | undefined {
+    const path = relative(base, target);
+    if (path === '..' || path.startsWith(`..${sep}`) || isAbsolute(path)) return undefined;
+    return path.split(sep).join('/');
+  }
+}
+
+/**
+ * 解析真实路径；不存在的部分原样拼接到最近的已存在上级目录的真实路径后，
+ * 指向不存在目标的符号链接按其目标解析
+ */
+async function realpathLoose(path: string, depth = 0): Promise<string> {
+  if (depth > MAX_SYMLINK_DEPTH) {
+    throw new Error(`Too many levels of symbolic links: ${path}`);
+  }
+
+  try {
+    return await fs.realpath(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  const stat = await fs.lstat(path).catch(() => undefined);
+  if (stat?.isSymbolicLink()) {
+    return realpathLoose(resolve(dirname(path), await fs.readlink(path)), depth + 1);
+  }
+
+  const parent = dirname(path);
+  if (parent === path) return path;
+  return join(await realpathLoose(parent, depth), basename(path));
+}
+
+function matchesPattern(path: string, pattern: string): boolean {
+  if (matchGlob(path, pattern, { path: true })) return true;
+  return pattern.endsWith('/**') && path === pattern.slice(0, -3);
+}
+
+function describeViolation(reason: WorkspaceViolation): string {
+  switch (reason) {
+    case 'outside-workspace':
+      return 'Path is outside the workspace';
+    case 'symlink-escape':
+      return 'Path resolves outside the workspace through a symbolic link';
+    case 'denied':
+      return 'Access to path is denied';
+    case 'read-only':
+      return 'Path is read-only';
+  }
+}
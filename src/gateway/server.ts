@@ -7,8 +7,9 @@
 
 import { WebSocketServer, WebSocket } from 'ws';
 import { createServer } from 'http';
-import type { AgentConfig, GatewayConfig } from '../types/index.js';
+import type { AgentConfig, AgentEvent, GatewayConfig } from '../types/index.js';
 import { AwesomeAgent } from '../core/agent.js';
+import type { StructuredOutputOptions } from '../core/output/structured.js';
 import type { IncomingMessage } from 'http';
 
 export interface GatewayRequest {
@@ -32,12 +33,26 @@ export interface GatewayEvent {
   payload: unknown;
 }
 
+/** 带错误码的请求错误 */
+class GatewayRequestError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'GatewayRequestError';
+    this.code = code;
+  }
+}
+
 export class GatewayServer {
   private agent: AwesomeAgent;
   private config: GatewayConfig;
   private server: ReturnType<typeof createServer>;
   private wss: WebSocketServer;
   private clients: Set<WebSocket> = new Set();
+  /** 客户端标识，用于按客户端限定工具策略 */
+  private clientIds: Map<WebSocket, string> = new Map();
+  private nextClientId = 1;
 
   constructor(agent: AwesomeAgent, config: GatewayConfig) {
     this.agent = agent;
@@ -65,6 +80,7 @@ export class GatewayServer {
    * 停止 Gateway
    */
   async stop(): Promise<void> {
+    await this.agent.dispose();
     return new Promise((resolve) => {
       this.wss.close(() => {
         this.server.close(() => {
@@ -80,20 +96,22 @@ export class GatewayServer {
    */
   private setupWebSocket(): void {
     this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
-      // 认证检查
-      if (!this.authenticate(req)) {
+      // 认证检查，客户端标识由认证凭据决定
+      const clientId = this.authenticate(req);
+      if (!clientId) {
         ws.close(1008, 'Unauthorized');
         return;
       }
 
       this.clients.add(ws);
-      console.log(`Client connected (${this.clients.size} total)`);
+      this.clientIds.set(ws, clientId);
+      console.log(`Client connected: ${clientId} (${this.clients.size} total)`);
 
       // 发送欢迎消息
       this.send(ws, {
         type: 'event',
         event: 'connected',
-        payload: { message: 'Welcome to Awesome Agent Gateway' },
+        payload: { message: 'Welcome to Awesome Agent Gateway', clientId },
       });
 
       // 处理消息
@@ -106,24 +124,30 @@ export class GatewayServer {
         }
       });
 
+      // 订阅 Agent 事件，审批事件包含完整的工具参数，只发给发起运行的客户端
+      const forward = (event: unknown) => this.send(ws, { type: 'event', event: 'agent', payload: event });
+      const listeners: [string, (event: unknown) => void][] = [
+        ['lifecycle', forward],
+        ['assistant', forward],
+        ['thinking', forward],
+        ['tool', forward],
+        [
+          'approval',
+          (event) => {
+            if (this.ownsRun(ws, (event as AgentEvent).runId)) forward(event);
+          },
+        ],
+        ['compacted', forward],
+      ];
+      for (const [event, listener] of listeners) this.agent.on(event, listener);
+
       // 清理
       ws.on('close', () => {
+        for (const [event, listener] of listeners) this.agent.off(event, listener);
         this.clients.delete(ws);
+        this.clientIds.delete(ws);
         console.log(`Client disconnected (${this.clients.size} total)`);
       });
-
-      // 订阅 Agent 事件
-      this.agent.on('lifecycle', (event) => {
-        this.send(ws, { type: 'event', event: 'agent', payload: event });
-      });
-
-      this.agent.on('assistant', (event) => {
-        this.send(ws, { type: 'event', event: 'agent', payload: event });
-      });
-
-      this.agent.on('tool', (event) => {
-        this.send(ws, { type: 'event', event: 'agent', payload: event });
-      });
     });
   }
 
@@ -162,8 +186,67 @@ export class GatewayServer {
             sessionId: (request.params.sessionId as string) || 'main',
             message: request.params.message as string,
             runId: request.params.runId as string,
+            clientId: this.clientIds.get(ws),
+            // 结构化输出：{ schema: JSON Schema, name?, maxRetries? }
+            output: request.params.output as StructuredOutputOptions | undefined,
+          });
+          payload = { runId: run.id, status: run.status, output: run.output, checkpointId: run.checkpointId };
+          break;
+
+        case 'agent.cancel':
+          this.assertOwnsRun(ws, request.params.runId as string);
+          payload = {
+            runId: request.params.runId,
+            cancelled: this.agent.cancel(request.params.runId as string),
+          };
+          break;
+
+        case 'tool.approve':
+          this.assertOwnsApproval(ws, request.params.approvalId as string);
+          payload = {
+            approvalId: request.params.approvalId,
+            resolved: this.agent.approve(
+              request.params.approvalId as string,
+              request.params.reason as string | undefined
+            ),
+          };
+          break;
+
+        case 'tool.deny':
+          this.assertOwnsApproval(ws, request.params.approvalId as string);
+          payload = {
+            approvalId: request.params.approvalId,
+            resolved: this.agent.deny(
+              request.params.approvalId as string,
+              request.params.reason as string | undefined
+            ),
+          };
+          break;
+
+        case 'session.compact':
+          payload = {
+            sessionId: (request.params.sessionId as string) || 'main',
+            result: await this.agent.compact((request.params.sessionId as string) || 'main'),
+          };
+          break;
+
+        case 'session.close':
+          // 终止会话保留的后台进程
+          await this.agent.closeSession((request.params.sessionId as string) || 'main');
+          payload = { sessionId: (request.params.sessionId as string) || 'main', closed: true };
+          break;
+
+        case 'checkpoint.list':
+          payload = {
+            checkpoints: await this.agent.listCheckpoints(request.params.sessionId as string | undefined),
+          };
+          break;
+
+        case 'checkpoint.rewind':
+          // session 为 true 时同时回退检查点所属会话的消息
+          payload = await this.agent.rewind(request.params.checkpointId as string, {
+            session: request.params.session === true,
           });
-          payload = { runId: run.id, status: run.status };
           break;
 
         case 'health':
@@ -177,6 +260,10 @@ export class GatewayServer {
         case 'status':
           payload = {
             activeRuns: Array.from(this.agent['activeRuns'].keys()),
+            queue: this.agent['scheduler'].stats,
+            pendingApprovals: this.agent
+              .getPendingApprovals()
+              .filter((approval) => this.ownsRun(ws, approval.runId)),
             sessions: (await this.agent['sessionManager'].list()).length,
           };
           break;
@@ -189,27 +276,64 @@ export class GatewayServer {
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.sendResponse(ws, request.id, false, undefined, {
-        code: 'INTERNAL_ERROR',
+        code: error instanceof GatewayRequestError ? error.code : 'INTERNAL_ERROR',
         message,
       });
     }
   }
 
   /**
-   * 认证检查
+   * 运行是否由该连接的客户端发起
+   */
+  private ownsRun(ws: WebSocket, runId: string): boolean {
+    const run = this.agent.getRun(runId);
+    return run !== undefined && run.clientId === this.clientIds.get(ws);
+  }
+
+  /**
+   * 只有发起运行的客户端可以取消运行；运行不存在时交由 Agent 返回 false
    */
-  private authenticate(req: IncomingMessage): boolean {
+  private assertOwnsRun(ws: WebSocket, runId: string): void {
+    if (this.agent.getRun(runId) && !this.ownsRun(ws, runId)) {
+      throw new GatewayRequestError('FORBIDDEN', `Run ${runId} belongs to another client`);
+    }
+  }
+
+  /**
+   * 只有发起运行的客户端可以处理其审批；审批不存在时交由 Agent 返回 false
+   */
+  private assertOwnsApproval(ws: WebSocket, approvalId: string): void {
+    const approval = this.agent.getPendingApprovals().find((pending) => pending.id === approvalId);
+    if (approval && !this.ownsRun(ws, approval.runId)) {
+      throw new GatewayRequestError('FORBIDDEN', `Approval ${approvalId} belongs to another client`);
+    }
+  }
+
+  /**
+   * 认证检查，返回客户端标识；认证失败时返回 undefined
+   *
+   * auth.tokens 中的令牌对应配置的客户端标识，其他连接由服务端自动分配，不采用客户端自报的标识
+   */
+  private authenticate(req: IncomingMessage): string | undefined {
     if (!this.config.auth || this.config.auth.mode === 'none') {
-      return true;
+      return this.assignClientId();
     }
 
     if (this.config.auth.mode === 'token') {
       const token = req.headers.authorization?.replace('Bearer ', '');
-      return token === this.config.auth.token;
+      if (!token) return undefined;
+
+      const tokens = this.config.auth.tokens ?? {};
+      if (Object.hasOwn(tokens, token)) return tokens[token];
+      return token === this.config.auth.token ? this.assignClientId() : undefined;
     }
 
     // 其他认证方式...
-    return false;
+    return undefined;
+  }
+
+  private assignClientId(): string {
+    return `client_${this.nextClientId++}`;
   }
 
   /**
@@ -6,22 +6,83 @@
 
 export { AwesomeAgent } from './core/agent.js';
 export { ToolRegistry } from './core/tools/registry.js';
-export { BaseTool } from './core/tools/base.js';
+export { BaseTool, ToolArgumentsError } from './core/tools/base.js';
+export { defineTool } from './core/tools/define.js';
 export { BrowserTool } from './core/tools/browser.js';
 export { FileSystemTool } from './core/tools/filesystem.js';
 export { ExecTool } from './core/tools/exec.js';
+export { ProcessTool } from './core/tools/process.js';
+export { ProcessManager } from './core/tools/process-manager.js';
 export { ModelProvider } from './core/models/provider.js';
+export { ModelChain } from './core/models/fallback.js';
+export { ModelFallbackError, classifyModelError } from './core/models/errors.js';
+export { ModelAdapterRegistry, modelAdapters, registerModelAdapter } from './core/models/registry.js';
+export { OpenAIAdapter } from './core/models/adapters/openai.js';
+export { AnthropicAdapter } from './core/models/adapters/anthropic.js';
+export { QwenAdapter } from './core/models/adapters/qwen.js';
 export { SessionManager } from './core/session/manager.js';
+export { SessionCompactor } from './core/session/compaction.js';
+export { RunScheduler } from './core/queue/scheduler.js';
+export { UsageTracker, BudgetExceededError } from './core/usage/tracker.js';
+export { ApprovalManager } from './core/approval/manager.js';
+export { PolicyEngine, ToolPolicyError } from './core/policy/engine.js';
+export { checkCommand, extractCommands, CommandRejectedError } from './core/policy/command.js';
+export { parseShell, ShellParseError } from './core/utils/shell.js';
+export { WorkspaceGuard, WorkspaceAccessError } from './core/workspace/guard.js';
+export { CheckpointManager } from './core/workspace/checkpoint.js';
+export { StructuredOutput, StructuredOutputError } from './core/output/structured.js';
+export { zodToJsonSchema, validateJsonSchema } from './core/schema/json-schema.js';
 export { GatewayServer } from './gateway/server.js';
 
 export type {
   AgentConfig,
+  BudgetConfig,
+  CompactionConfig,
+  ContextConfig,
   ModelConfig,
+  ModelPricing,
+  RetryPolicy,
   Session,
   Message,
   ToolCall,
   ToolResult,
+  ToolConfig,
+  ToolApprovalPolicy,
+  ToolPolicyConfig,
+  ToolPolicyRule,
+  SandboxConfig,
+  WorkspaceGuardConfig,
+  CheckpointConfig,
+  FileAccess,
+  FileAccessRecord,
+  ThinkingBlock,
+  ThinkingLevel,
   AgentEvent,
   AgentRun,
   GatewayConfig,
+  UsageTotals,
 } from './types/index.js';
+
+export type {
+  GenerateOptions,
+  GenerateResult,
+  StreamChunk,
+  ModelAdapter,
+  ModelAdapterFactory,
+  ModelCapabilities,
+  ResponseFormat,
+} from './core/models/adapter.js';
+export type { AgentTool, ToolExecutionContext, ToolReleaseScope } from './core/tools/base.js';
+export type { ToolDefinition } from './core/tools/define.js';
+export type { ProcessInfo, ProcessOutput, ProcessStatus } from './core/tools/process-manager.js';
+export type { FileSystemToolOptions } from './core/tools/filesystem.js';
+export type { CompactionResult } from './core/session/compaction.js';
+export type { ApprovalDecision, ApprovalRequest } from './core/approval/manager.js';
+export type { PolicyContext, PolicyDecision } from './core/policy/engine.js';
+export type { CommandRejection, ParsedCommand } from './core/policy/command.js';
+export type { ShellCommand, ShellList, ShellWord } from './core/utils/shell.js';
+export type { AccessSource, WorkspaceViolation } from './core/workspace/guard.js';
+export type { Checkpoint, CheckpointInfo, FileChange, RewindResult } from './core/workspace/checkpoint.js';
+export type { StructuredOutputOptions } from './core/output/structured.js';
+export type { JsonSchema, SchemaIssue } from './core/schema/json-schema.js';
+export type { ModelChainEvent, ModelChainListener } from './core/models/fallback.js';
@@ -5,13 +5,158 @@
  */
 
 export interface AgentConfig {
-  model: ModelConfig;
+  /** 模型配置；传入数组时按顺序回退 */
+  model: ModelConfig | ModelConfig[];
   workspace: string;
   tools?: ToolConfig[];
+  /** 全局同时运行数上限，默认 4；同一会话的运行始终串行 */
   maxConcurrent?: number;
+  /** 单次运行超时（秒），超时后状态为 timeout */
   timeoutSeconds?: number;
+  /** 同一轮中可并行的工具调用同时执行数上限，默认 4 */
+  maxParallelTools?: number;
   thinkingLevel?: ThinkingLevel;
   verboseLevel?: VerboseLevel;
+  context?: ContextConfig;
+  compaction?: CompactionConfig;
+  /** 模型价格表，键为 provider/model 或模型名 */
+  pricing?: Record<string, ModelPricing>;
+  budget?: BudgetConfig;
+  /** 工具调用策略 */
+  policy?: ToolPolicyConfig;
+  /** exec 工具的沙箱；true 使用默认配置，工作区默认为 workspace */
+  sandbox?: boolean | SandboxConfig;
+  /** 工具访问 workspace 内文件的保护规则 */
+  workspaceGuard?: WorkspaceGuardConfig;
+  /** 每次运行前为 workspace 创建检查点，默认开启；false 关闭 */
+  checkpoints?: boolean | CheckpointConfig;
+}
+
+export interface CheckpointConfig {
+  /** 保留的检查点数量，默认 100 */
+  maxCheckpoints?: number;
+  /** 超过该大小（字节）的文件不保存，默认 10MB */
+  maxFileBytes?: number;
+  /** 不纳入检查点的路径（相对于工作区的 glob），默认 ['sessions/**', 'usage/**', 'checkpoints/**', 'browser/**'] */
+  exclude?: string[];
+}
+
+export interface WorkspaceGuardConfig {
+  /** 只读路径（相对于工作区的 glob），默认 ['.git/**', 'sessions/**', 'usage/**', 'checkpoints/**'] */
+  readOnly?: string[];
+  /** 禁止访问的路径（glob），'browser/**'（旧版本的浏览器登录状态）始终禁止 */
+  deny?: string[];
+}
+
+export type FileAccess = 'read' | 'write';
+
+/** 一次文件访问的审计记录 */
+export interface FileAccessRecord {
+  /** 相对于工作区的路径（越界时为原始路径） */
+  path: string;
+  access: FileAccess;
+  tool: string;
+  action?: string;
+  allowed: boolean;
+  /** 被拒绝的原因 */
+  reason?: 'outside-workspace' | 'symlink-escape' | 'denied' | 'read-only';
+  timestamp: number;
+}
+
+export interface SandboxConfig {
+  /** 工作区根目录，命令只能在其中执行，默认 process.cwd() */
+  workspace?: string;
+  /** 保留的宿主环境变量，默认 PATH、LANG、LC_ALL、TERM、TZ */
+  envAllowlist?: string[];
+  /** 额外设置的环境变量 */
+  env?: Record<string, string>;
+  /** 资源限制 */
+  limits?: {
+    /** CPU 时间（秒），默认 60 */
+    cpuSeconds?: number;
+    /** 虚拟内存（MB），默认 1024 */
+    memoryMb?: number;
+    /** 单个写入文件大小（MB），默认 100 */
+    fileSizeMb?: number;
+  };
+  /**
+   * Linux 命名空间隔离
+   * - 'auto'（默认）：可用时启用，否则回退为 rlimit 模式
+   * - true：必须启用，不可用时拒绝执行
+   * - false：不使用
+   */
+  namespaces?: boolean | 'auto';
+  /** 命名空间模式下是否允许网络，默认 false */
+  network?: boolean;
+}
+
+export interface ToolPolicyConfig {
+  /** 没有规则匹配时的决定，默认 allow */
+  default?: 'allow' | 'deny';
+  /** 按顺序求值，第一条匹配的规则生效 */
+  rules?: ToolPolicyRule[];
+}
+
+export interface ToolPolicyRule {
+  effect: 'allow' | 'deny';
+  /** 工具名（glob），未设置时匹配所有工具 */
+  tool?: string;
+  /** 动作，即 action 参数（glob） */
+  action?: string;
+  /** 参数名 → glob，全部匹配时规则生效；非字符串参数按 JSON 匹配 */
+  args?: Record<string, string>;
+  /**
+   * command 参数的命令规则（如 `git push *`），按 shell 语法解析后逐个检查其中的命令：
+   * allow 规则要求所有命令都匹配，deny 规则在任一命令匹配时生效
+   */
+  command?: string;
+  /** 仅对这些会话生效（glob） */
+  sessions?: string[];
+  /** 仅对这些网关客户端生效（glob） */
+  clients?: string[];
+  /** 拒绝时返回给模型的说明 */
+  reason?: string;
+}
+
+export interface ModelPricing {
+  /** 输入价格（美元 / 百万 token） */
+  input: number;
+  /** 输出价格（美元 / 百万 token） */
+  output: number;
+  /** 缓存命中输入价格（美元 / 百万 token），默认同 input */
+  cachedInput?: number;
+}
+
+export interface BudgetConfig {
+  /** 单个会话累计费用上限（美元） */
+  perSessionUsd?: number;
+  /** 每日（UTC）累计费用上限（美元） */
+  perDayUsd?: number;
+}
+
+export interface UsageTotals {
+  inputTokens: number;
+  /** 命中提示词缓存的输入 token（包含在 inputTokens 中） */
+  cachedTokens: number;
+  outputTokens: number;
+  /** 估算费用（美元），未配置价格时为 0 */
+  cost: number;
+}
+
+export interface CompactionConfig {
+  /** 是否自动压缩，默认 true */
+  enabled?: boolean;
+  /** 会话超过该 token 数时压缩，默认上下文窗口的 60% */
+  thresholdTokens?: number;
+  /** 压缩时原样保留的最近消息 token 数，默认上下文窗口的 20% */
+  keepRecentTokens?: number;
+}
+
+export interface ContextConfig {
+  /** 单个工具输出的最大 token 数，超出部分截断 */
+  maxToolOutputTokens?: number;
+  /** token 估算误差的安全余量，默认 512 */
+  reserveTokens?: number;
 }
 
 export interface ModelConfig {
@@ -21,6 +166,27 @@ export interface ModelConfig {
   baseUrl?: string;
   temperature?: number;
   maxTokens?: number;
+  /** 自定义提供商的适配器名称（provider 为 'custom' 时必填） */
+  adapter?: string;
+  /** 上下文窗口大小（token），未设置时按模型推测 */
+  contextWindow?: number;
+  /** 临时错误重试策略 */
+  retry?: RetryPolicy;
+  /** 是否为推理模型（支持原生思考控制），未设置时按模型推测 */
+  reasoning?: boolean;
+}
+
+export interface RetryPolicy {
+  /** 最大重试次数（不含首次调用），默认 2 */
+  maxRetries?: number;
+  /** 首次退避时间（毫秒），默认 500 */
+  initialDelayMs?: number;
+  /** 最大退避时间（毫秒），默认 8000 */
+  maxDelayMs?: number;
+  /** 退避倍数，默认 2 */
+  multiplier?: number;
+  /** 抖动比例 0-1，默认 0.5 */
+  jitter?: number;
 }
 
 export type ThinkingLevel = 'off' | 'minimal' | 'low' | 'medium' | 'high' | 'xhigh';
@@ -31,8 +197,21 @@ export interface ToolConfig {
   description: string;
   parameters: Record<string, unknown>;
   enabled?: boolean;
+  /** 允许的调用（匹配 action 参数的 glob，或 command 参数的命令规则），未命中的调用被拒绝 */
   allowlist?: string[];
+  /** 拒绝的调用（匹配 action 参数的 glob，或 command 参数的命令规则） */
   denylist?: string[];
+  /** 人工审批：true 表示所有调用都需要审批 */
+  approval?: boolean | ToolApprovalPolicy;
+}
+
+export interface ToolApprovalPolicy {
+  /** 所有调用都需要审批 */
+  always?: boolean;
+  /** 参数匹配任一规则时需要审批（pattern 为正则，非字符串参数按 JSON 匹配） */
+  match?: Array<{ argument: string; pattern: string }>;
+  /** 等待审批的超时（秒），超时视为拒绝，默认 300 */
+  timeoutSeconds?: number;
 }
 
 export interface Session {
@@ -41,21 +220,37 @@ export interface Session {
   createdAt: number;
   updatedAt: number;
   messages: Message[];
+  /** 累计用量 */
+  usage?: UsageTotals;
   metadata?: Record<string, unknown>;
 }
 
 export interface Message {
   role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
+  /** 特殊消息类型：summary 为会话压缩生成的摘要 */
+  kind?: 'summary';
   toolCalls?: ToolCall[];
   toolResults?: ToolResult[];
+  /** 助手的思考内容（与回复文本分开保存，部分提供商需要在工具调用轮次中回传） */
+  thinking?: ThinkingBlock[];
   timestamp: number;
 }
 
+export interface ThinkingBlock {
+  text: string;
+  /** 提供商签名（Anthropic 回传思考块时校验） */
+  signature?: string;
+  /** 被提供商加密的思考内容 */
+  redacted?: string;
+}
+
 export interface ToolCall {
   id: string;
   name: string;
   arguments: Record<string, unknown>;
+  /** 参数解析失败时的错误信息（此时 arguments 为空对象） */
+  argumentsError?: string;
 }
 
 export interface ToolResult {
@@ -66,19 +261,31 @@ export interface ToolResult {
 }
 
 export interface AgentEvent {
-  type: 'lifecycle' | 'assistant' | 'tool' | 'error';
+  type: 'lifecycle' | 'assistant' | 'thinking' | 'tool' | 'approval' | 'compacted' | 'error';
   runId: string;
   data: unknown;
   timestamp: number;
 }
 
-export interface AgentRun {
+export interface AgentRun<TOutput = unknown> {
   id: string;
   sessionId: string;
-  status: 'pending' | 'running' | 'completed' | 'error' | 'cancelled';
+  status: 'pending' | 'running' | 'awaiting_approval' | 'completed' | 'error' | 'cancelled' | 'timeout';
   startedAt?: number;
   endedAt?: number;
   error?: string;
+  /** 实际作答的模型（provider/model） */
+  model?: string;
+  /** 本次运行的用量 */
+  usage?: UsageTotals;
+  /** 发起运行的网关客户端 */
+  clientId?: string;
+  /** 结构化输出的解析结果（运行时传入 output 时） */
+  output?: TOutput;
+  /** 本次运行中工具访问的文件（含被拒绝的访问） */
+  files?: FileAccessRecord[];
+  /** 运行开始前创建的检查点 */
+  checkpointId?: string;
 }
 
 export interface GatewayConfig {
@@ -87,6 +294,8 @@ export interface GatewayConfig {
   auth?: {
     mode: 'token' | 'password' | 'none';
     token?: string;
+    /** 按客户端发放的令牌：令牌 → 客户端标识（用于 ToolPolicyRule.clients） */
+    tokens?: Record<string, string>;
     password?: string;
   };
 }